@@ -0,0 +1,459 @@
+/**
+ * Cache for Ollama WebSearch
+ * Search results, extracted pages and answers in separate namespaces, stored in a
+ * persistent SQLite file shared by every run on the machine, in memory for library
+ * use without disk access, or in Redis for shared deployments, all with TTL and LRU eviction
+ */
+
+import { DatabaseSync } from "node:sqlite";
+import { RedisCache, RedisClient } from "./redis.ts";
+
+export type CacheBackendName = 'sqlite' | 'memory' | 'redis';
+
+export const CACHE_BACKENDS: CacheBackendName[] = ['sqlite', 'memory', 'redis'];
+
+/**
+ * What a cache entry holds; keys start with the namespace, e.g. "page:https://..."
+ */
+export type CacheNamespace = 'search' | 'page' | 'answer' | 'embedding';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['search', 'page', 'answer', 'embedding'];
+
+/**
+ * Settings from the `cache` block of config.json
+ */
+export interface CacheSettings {
+  enabled: boolean;
+  backend: CacheBackendName;  // sqlite: persistent file shared across runs; memory: this process only; redis: shared server
+  maxSize: number;            // Entries kept; the least recently used are evicted beyond this
+  ttlMinutes: number;         // Pages are served without a request for this long
+  revalidateMinutes: number;  // Pages with an ETag or Last-Modified are kept this much longer and revalidated with a conditional request (0: refetch)
+  searchTtlMinutes: number;   // Lifetime of cached search results (0: not cached)
+  answerTtlMinutes: number;   // Lifetime of cached answers (0: not cached)
+  path: string;               // SQLite file (empty for the user cache directory), also the fallback while Redis is unreachable
+  redisUrl: string;           // redis:// or rediss:// URL of the Redis server
+  keyPrefix: string;          // Prefix of all Redis keys written by the cache
+}
+
+/**
+ * Statistics of a cache
+ */
+export interface CacheStats {
+  size: number;               // Entries stored
+  totalHits: number;          // Reads served since the entries were written
+  averageAge: number;         // Minutes since the entries were written, on average
+}
+
+/**
+ * An entry as listed by `cache list`
+ */
+export interface CacheEntryInfo {
+  key: string;
+  namespace: string;          // Text before the first ":" of the key
+  created: number;            // Milliseconds since the epoch
+  expires: number;
+  hits: number;
+  size: number;               // Bytes of content
+}
+
+/**
+ * An entry with its content, as exported and imported
+ */
+export interface CacheRecord {
+  key: string;
+  content: string;
+  created: number;
+  expires: number;
+  hits: number;
+}
+
+/**
+ * A key-value store of strings. Methods are asynchronous so that
+ * network-backed stores can implement the same interface.
+ */
+export interface Cache {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  /** Stores an entry for `ttl` milliseconds, or for the cache's default lifetime */
+  set(key: string, content: string, ttl?: number): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  stats(): Promise<CacheStats>;
+  /** Entries that have not expired, most recently used first */
+  list(): Promise<CacheEntryInfo[]>;
+  /** An entry with its content, without counting a hit or changing the recency order */
+  read(key: string): Promise<CacheRecord | null>;
+  /** Deletes expired entries and returns how many were deleted */
+  prune(): Promise<number>;
+  close(): void;
+}
+
+interface MemoryEntry {
+  content: string;
+  timestamp: number;
+  expires: number;
+  hits: number;
+}
+
+/**
+ * Cache held in a Map in insertion order, which doubles as the recency order:
+ * reading an entry moves it to the end, and eviction starts at the front
+ */
+export class MemoryCache implements Cache {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+
+  /**
+   * @param maxSize - Entries kept
+   * @param ttl - Default lifetime of an entry in milliseconds
+   */
+  constructor(private maxSize: number, private ttl: number) {}
+
+  get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+
+    this.entries.delete(key);
+    if (Date.now() > entry.expires) return Promise.resolve(null);
+
+    entry.hits++;
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.content);
+  }
+
+  set(key: string, content: string, ttl = this.ttl): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { content, timestamp: now, expires: now + ttl, hits: 0 });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxSize) break;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.entries.delete(key));
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  stats(): Promise<CacheStats> {
+    const entries = Array.from(this.entries.values());
+    return Promise.resolve({
+      size: entries.length,
+      totalHits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+      averageAge: averageAge(entries.map(entry => entry.timestamp))
+    });
+  }
+
+  list(): Promise<CacheEntryInfo[]> {
+    const now = Date.now();
+    return Promise.resolve(Array.from(this.entries)
+      .reverse()
+      .filter(([, entry]) => entry.expires >= now)
+      .map(([key, entry]) => entryInfo(key, entry.timestamp, entry.expires, entry.hits, entry.content)));
+  }
+
+  read(key: string): Promise<CacheRecord | null> {
+    const entry = this.entries.get(key);
+    if (!entry || Date.now() > entry.expires) return Promise.resolve(null);
+    return Promise.resolve({ key, content: entry.content, created: entry.timestamp, expires: entry.expires, hits: entry.hits });
+  }
+
+  prune(): Promise<number> {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expires && this.entries.delete(key)) pruned++;
+    }
+    return Promise.resolve(pruned);
+  }
+
+  close(): void {}
+}
+
+/**
+ * Cache in a SQLite file. Several processes can use the same file at once.
+ */
+export class SqliteCache implements Cache {
+  readonly name = 'sqlite';
+  private db: DatabaseSync;
+
+  /**
+   * @param path - Database file, created with its directory if missing
+   * @param maxSize - Entries kept
+   * @param ttl - Default lifetime of an entry in milliseconds
+   */
+  constructor(readonly path: string, private maxSize: number, private ttl: number) {
+    const directory = path.replace(/[\\/][^\\/]*$/, '');
+    if (directory && directory !== path) Deno.mkdirSync(directory, { recursive: true });
+
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = 5000;
+      CREATE TABLE IF NOT EXISTS entries (
+        key TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        used INTEGER NOT NULL,    -- Recency order: the largest value was used last
+        hits INTEGER NOT NULL DEFAULT 0,
+        expires INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS entries_used ON entries (used);
+    `);
+
+    // Files written before entries had their own lifetime
+    const columns = this.db.prepare('PRAGMA table_info(entries)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'expires')) {
+      this.db.exec('ALTER TABLE entries ADD COLUMN expires INTEGER NOT NULL DEFAULT 0');
+      this.db.prepare('UPDATE entries SET expires = created + ?').run(ttl);
+    }
+  }
+
+  get(key: string): Promise<string | null> {
+    const now = Date.now();
+    const row = this.db.prepare('SELECT content, expires FROM entries WHERE key = ?').get(key) as
+      { content: string; expires: number } | undefined;
+    if (!row) return Promise.resolve(null);
+
+    if (now > row.expires) {
+      this.db.prepare('DELETE FROM entries WHERE key = ?').run(key);
+      return Promise.resolve(null);
+    }
+
+    this.db.prepare('UPDATE entries SET used = (SELECT MAX(used) + 1 FROM entries), hits = hits + 1 WHERE key = ?').run(key);
+    return Promise.resolve(row.content);
+  }
+
+  set(key: string, content: string, ttl = this.ttl): Promise<void> {
+    const now = Date.now();
+    this.db.prepare('INSERT OR REPLACE INTO entries (key, content, created, used, hits, expires) VALUES (?, ?, ?, (SELECT COALESCE(MAX(used), 0) + 1 FROM entries), 0, ?)')
+      .run(key, content, now, now + ttl);
+
+    // Drop expired entries, then the least recently used ones beyond maxSize
+    this.db.prepare('DELETE FROM entries WHERE expires < ?').run(now);
+    this.db.prepare('DELETE FROM entries WHERE key IN (SELECT key FROM entries ORDER BY used DESC LIMIT -1 OFFSET ?)')
+      .run(this.maxSize);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(Number(this.db.prepare('DELETE FROM entries WHERE key = ?').run(key).changes) > 0);
+  }
+
+  clear(): Promise<void> {
+    this.db.exec('DELETE FROM entries');
+    return Promise.resolve();
+  }
+
+  stats(): Promise<CacheStats> {
+    const row = this.db.prepare('SELECT COUNT(*) AS size, COALESCE(SUM(hits), 0) AS hits, AVG(created) AS created FROM entries WHERE expires >= ?')
+      .get(Date.now()) as { size: number; hits: number; created: number | null };
+    return Promise.resolve({
+      size: Number(row.size),
+      totalHits: Number(row.hits),
+      averageAge: row.created === null ? 0 : (Date.now() - Number(row.created)) / 1000 / 60
+    });
+  }
+
+  list(): Promise<CacheEntryInfo[]> {
+    const rows = this.db.prepare('SELECT key, created, expires, hits, LENGTH(CAST(content AS BLOB)) AS size FROM entries WHERE expires >= ? ORDER BY used DESC')
+      .all(Date.now()) as Array<{ key: string; created: number; expires: number; hits: number; size: number }>;
+    return Promise.resolve(rows.map(row => ({
+      key: row.key,
+      namespace: namespaceOf(row.key),
+      created: Number(row.created),
+      expires: Number(row.expires),
+      hits: Number(row.hits),
+      size: Number(row.size)
+    })));
+  }
+
+  read(key: string): Promise<CacheRecord | null> {
+    const row = this.db.prepare('SELECT key, content, created, expires, hits FROM entries WHERE key = ? AND expires >= ?')
+      .get(key, Date.now()) as { key: string; content: string; created: number; expires: number; hits: number } | undefined;
+    if (!row) return Promise.resolve(null);
+    return Promise.resolve({ key: row.key, content: row.content, created: Number(row.created), expires: Number(row.expires), hits: Number(row.hits) });
+  }
+
+  prune(): Promise<number> {
+    return Promise.resolve(Number(this.db.prepare('DELETE FROM entries WHERE expires < ?').run(Date.now()).changes));
+  }
+
+  close(): void {
+    if (this.db.isOpen) this.db.close();
+  }
+}
+
+/**
+ * Average age in minutes of entries written at the given times
+ */
+function averageAge(timestamps: number[]): number {
+  if (!timestamps.length) return 0;
+  return (Date.now() - timestamps.reduce((sum, time) => sum + time, 0) / timestamps.length) / 1000 / 60;
+}
+
+/**
+ * The namespace of a cache key: the text before its first ":"
+ */
+export function namespaceOf(key: string): string {
+  const colon = key.indexOf(':');
+  return colon < 0 ? '' : key.slice(0, colon);
+}
+
+/**
+ * Describes an entry for listing
+ */
+export function entryInfo(key: string, created: number, expires: number, hits: number, content: string): CacheEntryInfo {
+  return { key, namespace: namespaceOf(key), created, expires, hits, size: new TextEncoder().encode(content).length };
+}
+
+/**
+ * Builds a cache key from a namespace and a SHA-256 digest of the parts
+ *
+ * @param namespace - What the entry holds
+ * @param parts - Everything the cached value depends on
+ * @returns Promise<string> - e.g. "search:3f7a..."
+ */
+export async function hashKey(namespace: CacheNamespace, parts: unknown[]): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${namespace}:${hex.slice(0, 32)}`;
+}
+
+/**
+ * Default location of the cache file: $XDG_CACHE_HOME/ollama-websearch/cache.sqlite,
+ * or ~/.cache/ollama-websearch/cache.sqlite
+ */
+export function defaultCachePath(): string {
+  const base = Deno.env.get('XDG_CACHE_HOME') ||
+    `${Deno.env.get('HOME') ?? Deno.env.get('USERPROFILE') ?? '.'}/.cache`;
+  return `${base}/ollama-websearch/cache.sqlite`;
+}
+
+/**
+ * Cache that uses a shared backend while it is reachable and a local one otherwise.
+ * After a failure the shared backend is left alone for a while before it is tried again.
+ */
+export class FallbackCache implements Cache {
+  private downUntil = 0;
+
+  /**
+   * @param primary - Shared backend, e.g. Redis
+   * @param fallback - Local backend used while the primary fails
+   * @param onFallback - Receives a message each time the primary fails
+   * @param retryAfter - Milliseconds to use the fallback before trying the primary again
+   */
+  constructor(
+    private primary: Cache,
+    private fallback: Cache,
+    private onFallback?: (message: string) => void,
+    private retryAfter = 60_000
+  ) {}
+
+  get name(): string {
+    return Date.now() < this.downUntil ? this.fallback.name : this.primary.name;
+  }
+
+  get(key: string): Promise<string | null> {
+    return this.attempt(cache => cache.get(key));
+  }
+
+  set(key: string, content: string, ttl?: number): Promise<void> {
+    return this.attempt(cache => cache.set(key, content, ttl));
+  }
+
+  delete(key: string): Promise<boolean> {
+    return this.attempt(cache => cache.delete(key));
+  }
+
+  clear(): Promise<void> {
+    return this.attempt(cache => cache.clear());
+  }
+
+  stats(): Promise<CacheStats> {
+    return this.attempt(cache => cache.stats());
+  }
+
+  list(): Promise<CacheEntryInfo[]> {
+    return this.attempt(cache => cache.list());
+  }
+
+  read(key: string): Promise<CacheRecord | null> {
+    return this.attempt(cache => cache.read(key));
+  }
+
+  prune(): Promise<number> {
+    return this.attempt(cache => cache.prune());
+  }
+
+  /**
+   * Closes the primary only; the fallback belongs to whoever created it (openCache() keeps it open for other users)
+   */
+  close(): void {
+    this.primary.close();
+  }
+
+  private async attempt<T>(operation: (cache: Cache) => Promise<T>): Promise<T> {
+    if (Date.now() >= this.downUntil) {
+      try {
+        return await operation(this.primary);
+      } catch (error) {
+        this.downUntil = Date.now() + this.retryAfter;
+        this.onFallback?.(`${this.primary.name} cache unavailable (${(error as Error).message}), using the ${this.fallback.name} cache for ${this.retryAfter / 1000}s`);
+      }
+    }
+    return await operation(this.fallback);
+  }
+}
+
+// Open caches by backend and location, shared by all searches in the process
+const openCaches = new Map<string, Cache>();
+
+/**
+ * Returns the cache for the given settings, opening it on first use. A SQLite file that
+ * cannot be opened (e.g. without write permission) falls back to an in-memory cache,
+ * and Redis falls back to the local SQLite cache while it is unreachable.
+ *
+ * @param settings - Cache settings
+ * @param onFallback - Receives a warning whenever a fallback cache is used
+ * @returns Cache - The shared cache instance for these settings
+ */
+export function openCache(settings: CacheSettings, onFallback?: (message: string) => void): Cache {
+  const ttl = settings.ttlMinutes * 60 * 1000;
+  const location = settings.backend === 'sqlite' ? settings.path || defaultCachePath()
+    : settings.backend === 'redis' ? `${settings.redisUrl}:${settings.keyPrefix}` : '';
+  const id = `${settings.backend}:${location}:${settings.maxSize}:${settings.ttlMinutes}`;
+
+  let cache = openCaches.get(id);
+  if (!cache) {
+    if (settings.backend === 'sqlite') {
+      try {
+        cache = new SqliteCache(location, settings.maxSize, ttl);
+      } catch (error) {
+        onFallback?.(`Could not open the cache file ${location} (${(error as Error).message}), caching in memory for this run`);
+      }
+    } else if (settings.backend === 'redis') {
+      const redis = new RedisCache(new RedisClient(settings.redisUrl), settings.keyPrefix, settings.maxSize, ttl);
+      cache = new FallbackCache(redis, openCache({ ...settings, backend: 'sqlite' }, onFallback), onFallback);
+    } else if (settings.backend !== 'memory') {
+      throw new Error(`Unknown cache backend "${settings.backend}" (expected one of: ${CACHE_BACKENDS.join(', ')})`);
+    }
+    cache ??= new MemoryCache(settings.maxSize, ttl);
+    openCaches.set(id, cache);
+  }
+  return cache;
+}
+
+/**
+ * Closes all open caches
+ */
+export function closeCaches(): void {
+  openCaches.forEach(cache => cache.close());
+  openCaches.clear();
+}
@@ -0,0 +1,282 @@
+/**
+ * Follow-up conversations for Ollama WebSearch
+ * A chat session keeps the sources of a search and the questions and answers so far, so
+ * follow-up questions are answered from the same sources through Ollama's chat API, and
+ * sources found by searching again are added with the next free numbers
+ */
+
+import { type Citation, labelSource } from "./citations.ts";
+import type { SearchResult } from "./output.ts";
+import { estimateTokens, SAFETY_MARGIN, sourceHeader, splitIntoChunks, type SummarizationSettings } from "./summarize.ts";
+
+export type ChatSearchMode = 'auto' | 'always' | 'never';
+
+export const CHAT_SEARCH_MODES: ChatSearchMode[] = ['auto', 'always', 'never'];
+
+// Format of session files written by saveSession()
+export const SESSION_VERSION = 1;
+
+/**
+ * Settings from the `chat` block of config.json
+ */
+export interface ChatSettings {
+  search: ChatSearchMode;     // auto: the model decides per follow-up whether new sources are needed
+  maxTurns: number;           // Earlier questions and answers sent with each follow-up, oldest dropped first
+}
+
+/**
+ * A message for Ollama's chat API
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A source of the conversation; its position in the session is its citation number
+ */
+export interface ChatSource {
+  url: string;
+  title?: string;
+  content: string;            // Attributed source block as passed to the model
+  query: string;              // The search that found the source
+}
+
+/**
+ * One question and its answer
+ */
+export interface ChatTurn {
+  question: string;
+  answer: string;             // Cites sources as [n], the n-th source of the session
+  model: string;
+  timestamp: string;
+  search?: string;            // Query searched before answering, when the turn searched
+  newSources: number;         // Sources the search added
+  citations?: Citation[];
+}
+
+/**
+ * A conversation that can be saved to a file and continued later
+ */
+export interface ChatSession {
+  version: number;
+  query: string;              // The query the conversation started with
+  created: string;
+  updated: string;
+  sources: ChatSource[];
+  turns: ChatTurn[];
+}
+
+/**
+ * Whether a follow-up is answered from the sources at hand or after searching again
+ */
+export interface ChatDecision {
+  search: boolean;
+  query: string;              // Self-contained search query for the follow-up
+  reason?: string;
+}
+
+/**
+ * Starts a session from a search result, its query and answer being the first turn
+ *
+ * @param result - Result of search()
+ * @returns ChatSession - The session with the sources of the result
+ */
+export function createSession(result: SearchResult): ChatSession {
+  return {
+    version: SESSION_VERSION,
+    query: result.query,
+    created: result.timestamp,
+    updated: result.timestamp,
+    sources: result.sources.map(source => ({
+      url: source.url,
+      ...(source.title && { title: source.title }),
+      content: sourceBlock(source),
+      query: result.query
+    })),
+    turns: result.aiResponse ? [{
+      question: result.query,
+      answer: result.aiResponse,
+      model: result.model,
+      timestamp: result.timestamp,
+      search: result.query,
+      newSources: result.sources.length,
+      ...(result.citations && { citations: result.citations })
+    }] : []
+  };
+}
+
+/**
+ * Rebuilds the block the model read for a source of a result: its attribution and its text,
+ * or only the passages that were selected from it
+ */
+function sourceBlock(source: SearchResult['sources'][number]): string {
+  const header = [
+    `📰 Source: ${source.url}`,
+    source.title ? `🏷️  Title: ${source.title}` : '',
+    source.metadata?.byline ? `✍️  Author: ${source.metadata.byline}` : '',
+    (source.metadata?.publishedTime ?? source.publishedDate) ? `🗓️  Published: ${source.metadata?.publishedTime ?? source.publishedDate}` : '',
+    source.snippetOnly ? `⚠️  Page unavailable, search snippet only` : ''
+  ].filter(Boolean).join('\n');
+  const text = source.passages?.length ? source.passages.map(passage => passage.text).join('\n\n[…]\n\n') : source.content;
+  return `${header}\n\n${text}\n\n${'─'.repeat(80)}\n`;
+}
+
+/**
+ * Adds sources to a session, skipping URLs it already has
+ *
+ * @param session - The session to extend
+ * @param sources - New sources in rank order
+ * @returns number - Sources added; they are numbered after the existing ones
+ */
+export function addSources(session: ChatSession, sources: ChatSource[]): number {
+  const known = new Set(session.sources.map(source => source.url));
+  const fresh = sources.filter(source => !known.has(source.url) && known.add(source.url));
+  session.sources.push(...fresh);
+  return fresh.length;
+}
+
+/**
+ * The system message: how to answer, followed by the numbered sources
+ */
+function systemPrompt(sources: string): string {
+  return `You are a research assistant answering follow-up questions about web search results.
+Answer from the numbered web sources below and the conversation so far. If they do not contain the answer, say so instead of guessing.
+Cite your sources by their numbers in square brackets, e.g. [1] or [2][3], after a space right after the information they support; only cite the numbered sources below.
+Use markdown formatting and keep answers focused on the question.
+
+## Web Sources:
+${sources}`;
+}
+
+/**
+ * Builds the chat messages for a follow-up: the sources, the last settings.maxTurns turns and the
+ * question. Sources that do not fit the context window beside the conversation are shortened,
+ * each to an equal share of the room left.
+ *
+ * @param session - The conversation
+ * @param question - The follow-up question
+ * @param settings - Chat settings
+ * @param budget - Context window and response tokens (summarization settings)
+ * @returns ChatMessage[] - Messages for Ollama's chat API
+ */
+export function chatMessages(
+  session: ChatSession,
+  question: string,
+  settings: ChatSettings,
+  budget: Pick<SummarizationSettings, 'contextWindow' | 'responseTokens'>
+): ChatMessage[] {
+  const history: ChatMessage[] = (settings.maxTurns > 0 ? session.turns.slice(-settings.maxTurns) : [])
+    .flatMap(turn => [{ role: 'user' as const, content: turn.question }, { role: 'assistant' as const, content: turn.answer }]);
+  const messages = [...history, { role: 'user' as const, content: question }];
+
+  const used = estimateTokens(systemPrompt('')) + messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const room = budget.contextWindow - budget.responseTokens - used - SAFETY_MARGIN;
+  const blocks = session.sources.map((source, index) => labelSource(source.content, index));
+  return [{ role: 'system', content: systemPrompt(fitSources(blocks, room).join('\n')) }, ...messages];
+}
+
+/**
+ * Shortens source blocks to fit a number of tokens, cutting only the ones longer than an equal
+ * share and giving the room they leave unused to the others
+ */
+function fitSources(blocks: string[], room: number): string[] {
+  if (blocks.reduce((sum, block) => sum + estimateTokens(block), 0) <= room) return blocks;
+
+  const fitted = [...blocks];
+  const pending = blocks.map((_, index) => index).sort((a, b) => estimateTokens(blocks[a]) - estimateTokens(blocks[b]));
+  let left = Math.max(0, room);
+  while (pending.length) {
+    const share = Math.floor(left / pending.length);
+    const index = pending.shift()!;
+    if (estimateTokens(blocks[index]) > share) {
+      const { header, body } = sourceHeader(blocks[index]);
+      const [start = ''] = splitIntoChunks(body, Math.max(1, share - estimateTokens(header)));
+      fitted[index] = `${header}\n✂️  Shortened to fit the context window\n\n${start}\n\n${'─'.repeat(80)}\n`;
+    }
+    left -= Math.min(share, estimateTokens(fitted[index]));
+  }
+  return fitted;
+}
+
+/**
+ * Prompt asking whether a follow-up needs a new search, and for a query that stands on its own
+ */
+export function decisionPrompt(session: ChatSession, question: string): string {
+  const sources = session.sources.map((source, index) => `[${index + 1}] ${source.title ?? source.url}`).join('\n');
+  const asked = session.turns.slice(-3).map(turn => `- ${turn.question}`).join('\n');
+  return `A user is researching "${session.query}" with these web sources:
+${sources || '(none)'}
+
+Questions asked so far:
+${asked || '(none)'}
+
+Follow-up question: "${question}"
+
+Decide whether the sources above likely answer the follow-up question, or whether a new web search is needed
+(for a different topic, aspect, time period or more recent information). Also write the follow-up as a short
+search engine query that makes sense without the conversation.
+
+Reply with JSON only, in the form {"search": true or false, "query": "...", "reason": "..."}`;
+}
+
+/**
+ * Reads a decision from the model's response. A missing or unreadable search flag means the
+ * sources are reused; a missing query is replaced by the fallback query.
+ *
+ * @param response - The model's response to decisionPrompt()
+ * @param fallbackQuery - Query to search when the response has none
+ * @returns ChatDecision - The decision
+ */
+export function parseDecision(response: string, fallbackQuery: string): ChatDecision {
+  let json: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(response);
+    if (parsed && typeof parsed === 'object') json = parsed;
+  } catch {
+    // Some models wrap the JSON in prose
+    const match = response.match(/\{[\s\S]*\}/);
+    try {
+      if (match) json = JSON.parse(match[0]);
+    } catch {
+      // Not JSON at all
+    }
+  }
+
+  const search = json.search === true || json.search === 'true';
+  const query = typeof json.query === 'string' && json.query.trim() ? json.query.trim() : fallbackQuery;
+  return { search, query, ...(typeof json.reason === 'string' && json.reason.trim() && { reason: json.reason.trim() }) };
+}
+
+/**
+ * Writes a session to a JSON file
+ *
+ * @param session - The session
+ * @param path - File to write, replaced if it exists
+ */
+export async function saveSession(session: ChatSession, path: string): Promise<void> {
+  await Deno.writeTextFile(path, JSON.stringify(session, null, 2));
+}
+
+/**
+ * Reads a session written by saveSession()
+ *
+ * @param path - Session file
+ * @returns Promise<ChatSession> - The session
+ * @throws Error if the file cannot be read or holds no session of a supported version
+ */
+export async function loadSession(path: string): Promise<ChatSession> {
+  let session: ChatSession;
+  try {
+    session = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(`Could not read chat session ${path}: ${(error as Error).message}`);
+  }
+  if (!session || !Array.isArray(session.sources) || !Array.isArray(session.turns) || typeof session.query !== 'string') {
+    throw new Error(`${path} is not a chat session`);
+  }
+  if (session.version !== SESSION_VERSION) {
+    throw new Error(`Chat session ${path} has version ${session.version}, expected ${SESSION_VERSION}`);
+  }
+  return session;
+}
@@ -0,0 +1,107 @@
+/**
+ * Inline citations for Ollama WebSearch
+ * Sources are numbered [1]..[n] in the prompt and the model cites them with those markers;
+ * the markers in its answer are checked against the sources and rendered as links
+ */
+
+/**
+ * A source cited in the answer
+ */
+export interface Citation {
+  number: number;             // The marker [n]: the n-th source of the result
+  url: string;
+  title?: string;
+  count: number;              // Times the answer cites the source
+}
+
+/**
+ * The answer with only valid markers, and what it cites
+ */
+export interface ResolvedCitations {
+  text: string;               // The answer, each cited source written as its own [n] marker
+  citations: Citation[];      // Cited sources in order of their numbers
+  invalid: number[];          // Numbers the model cited that match no source, removed from the text
+}
+
+// A marker such as [3], [1, 2], [2-4] or [1; 5]: not the text of a Markdown link, and not an
+// index such as a[0] or items[12], which directly follows a name
+const MARKER = /(?<![\p{L}\p{N}_$])\[(\d{1,3}(?:\s*[-–]\s*\d{1,3})?(?:\s*[,;]\s*\d{1,3}(?:\s*[-–]\s*\d{1,3})?)*)\](?!\()/gu;
+
+// Code spans and blocks, where brackets are not citations
+const CODE = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+// Stands in for a marker without valid numbers until it is removed
+const REMOVED = '\uE001';
+
+/**
+ * Labels a source block with its citation number for the prompt
+ *
+ * @param text - Attributed source text
+ * @param index - Position of the source, from 0
+ * @returns string - The text starting with "[n] "
+ */
+export function labelSource(text: string, index: number): string {
+  return `[${index + 1}] ${text}`;
+}
+
+/**
+ * Replaces every citation marker outside code with what `replace` returns for its numbers.
+ * Ranges such as [2-4] are expanded to their numbers.
+ *
+ * @param text - Answer text
+ * @param replace - Receives the numbers of one marker and returns its replacement
+ * @returns string - The text with the markers replaced
+ */
+export function replaceCitations(text: string, replace: (numbers: number[]) => string): string {
+  return text.split(CODE)
+    .map((part, index) => index % 2 === 1 ? part : part.replace(MARKER, (_, list: string) => replace(parseMarker(list))))
+    .join('');
+}
+
+/**
+ * Numbers in the list of a marker, with ranges expanded
+ */
+function parseMarker(list: string): number[] {
+  return list.split(/\s*[,;]\s*/).flatMap(item => {
+    const [start, end = start] = item.split(/\s*[-–]\s*/).map(Number);
+    if (end < start || end - start > 20) return [start, end];
+    return Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+  });
+}
+
+/**
+ * Checks the citation markers of an answer against the sources. Markers are normalized to one
+ * [n] per source, numbers without a source are removed, and the cited sources are listed.
+ *
+ * @param text - The model's answer
+ * @param sources - The sources in the order they were numbered in the prompt
+ * @returns ResolvedCitations - The cleaned answer, the citations and the invalid numbers
+ */
+export function resolveCitations(text: string, sources: Array<{ url: string; title?: string }>): ResolvedCitations {
+  const counts = new Map<number, number>();
+  const invalid = new Set<number>();
+
+  const cleaned = replaceCitations(text, numbers => {
+    const valid = [...new Set(numbers)].filter(number => {
+      if (number >= 1 && number <= sources.length) return true;
+      invalid.add(number);
+      return false;
+    });
+    valid.forEach(number => counts.set(number, (counts.get(number) ?? 0) + 1));
+    return valid.length ? valid.map(number => `[${number}]`).join('') : REMOVED;
+  });
+
+  const citations = Array.from(counts, ([number, count]) => ({
+    number,
+    url: sources[number - 1].url,
+    ...(sources[number - 1].title && { title: sources[number - 1].title }),
+    count
+  })).sort((a, b) => a.number - b.number);
+
+  return {
+    // Removed markers take the space before them along
+    text: cleaned.replace(new RegExp(`[ \\t]*${REMOVED}`, 'g'), ''),
+    citations,
+    invalid: [...invalid].sort((a, b) => a - b)
+  };
+}
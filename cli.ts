@@ -4,6 +4,12 @@
  */
 
 import { parseArgs } from "https://deno.land/std@0.208.0/cli/parse_args.ts";
+import { type Cache, type CacheRecord, closeCaches, namespaceOf, openCache } from "./cache.ts";
+import { type ChatSession, createSession, loadSession, saveSession } from "./chat.ts";
+import { createMetrics, followUp, getCacheStats, loadConfig, search, type SearchOptions } from "./main.ts";
+import { cacheSummary, OutputFormatter, retrySummary, type SearchResult, strategySummary } from "./output.ts";
+import { PROVIDER_NAMES, TIME_RANGES } from "./providers.ts";
+import { loadRules } from "./rules.ts";
 
 interface CLIOptions {
   query?: string;
@@ -19,6 +25,18 @@ interface CLIOptions {
   timeout?: number;
   interactive?: boolean;
   save?: string;
+  provider?: string;
+  "time-range"?: string;
+  lang?: string;
+  engines?: string;
+  category?: string;
+  expand?: boolean;
+  rules?: string;
+  markdown?: boolean;
+  retrieve?: boolean;
+  chat?: boolean;
+  session?: string;
+  _?: Array<string | number>;
 }
 
 const VERSION = "2.0.0";
@@ -33,14 +51,26 @@ OPTIONS:
   -q, --query <TEXT>        Search query (required if not provided as argument)
   -m, --model <MODEL>       AI model to use (default: llama3.2:1b)
   -r, --results <NUM>       Number of search results to process (default: 5)
-  -o, --output <FILE>       Save output to file
+  -o, --output <FILE>       Save output to file (in --format, else detected from the extension)
   -f, --format <FORMAT>     Output format: console, json, markdown, html, text (default: console)
-  -c, --cache               Enable caching (default: true)
+                            Non-console formats are printed to stdout unless a file is given
+  -c, --cache               Use the page cache (default: true; --no-cache to bypass it)
   -v, --verbose             Enable verbose logging
   -h, --help                Show this help message
       --version             Show version information
       --config <FILE>       Use custom configuration file
       --timeout <MS>        Request timeout in milliseconds (default: 30000)
+      --provider <NAME>     Search provider: searxng, json, local (default: searxng)
+      --time-range <RANGE>  Only results from the last day, week, month or year
+      --lang <CODE>         Search language, e.g. en, de or all (default: en)
+      --engines <LIST>      Comma-separated SearXNG engines, e.g. google,bing
+      --category <LIST>     Comma-separated SearXNG categories, e.g. news,science
+  -x, --expand              Expand the query into sub-queries with the model and fuse their results
+      --rules <FILE>        Domain rule file (deny, allow, boost, demote), added to configured rules
+      --markdown            Extract pages as Markdown, keeping tables, lists and code blocks
+      --retrieve            Send only the passages most similar to the query (embedding model, see retrieval in config.json)
+      --chat                Ask follow-up questions after the answer, searching again when the sources fall short
+      --session <FILE>      Save the conversation to FILE after each turn, or continue the one saved there (implies --chat)
   -i, --interactive         Interactive mode with guided search
   -s, --save <FILE>         Save results to file (auto-detects format from extension)
 
@@ -51,6 +81,9 @@ EXAMPLES:
   # Use specific model and save as JSON
   deno run --allow-all cli.ts -m "llama3.2:3b" -f json -o results.json "climate change"
   
+  # Print a JSON result to stdout (progress goes to stderr)
+  deno run --allow-all cli.ts -f json "climate change" > results.json
+  
   # Interactive mode
   deno run --allow-all cli.ts --interactive
   
@@ -59,9 +92,45 @@ EXAMPLES:
   
   # Save as markdown report
   deno run --allow-all cli.ts -s report.md "artificial intelligence trends"
+  
+  # Recent German news from specific engines
+  deno run --allow-all cli.ts --time-range week --lang de --category news --engines google,bing "Energiepolitik"
+  
+  # Broaden the search with model-generated sub-queries, showing which one found each source
+  deno run --allow-all cli.ts -x -v "heat pump efficiency in cold climates"
+  
+  # Pin trusted documentation sites and ban content farms with a rule file
+  deno run --allow-all cli.ts --rules rules.json "python asyncio timeout"
+  
+  # Answer from the most relevant passages only, for long pages on a CPU-only machine
+  deno run --allow-all cli.ts --retrieve "how do heat pumps defrost"
+  
+  # Keep asking about the same sources, and pick the conversation up again later
+  deno run --allow-all cli.ts --session heatpumps.json "heat pumps for old houses"
+  deno run --allow-all cli.ts --session heatpumps.json "what about pricing?"
+  
+  # Search local HTML files configured under providers.local in config.json
+  deno run --allow-all cli.ts --provider local "deployment checklist"
+  
+  # See what the cache holds, then drop everything cached from one site
+  deno run --allow-all cli.ts cache list page
+  deno run --allow-all cli.ts cache purge "page:*example.com"
+
+CACHE COMMANDS:
+  cache stats               Entries, hits and size per namespace (search, page, answer)
+  cache list [NAMESPACE]    Entries with their age, hits, size and namespace, most recently used first
+  cache show <URL|KEY>      The cached copy of a page, or any entry by its key
+  cache purge <PATTERN>     Delete entries whose key contains PATTERN (* matches anything)
+  cache prune               Delete expired entries
+  cache export [FILE]       Write all entries as JSON to FILE or stdout
+  cache import <FILE>       Load entries written by cache export
+  These work on the configured cache backend (--config selects the configuration).
 
 ENVIRONMENT VARIABLES:
   SEARCH_URL              SearXNG instance URL (default: http://localhost:9999/search)
+  SEARCH_PROVIDER         Search provider (searxng, json, local)
+  RULES_FILE              Domain rule file
+  REDIS_URL               Share the page cache through Redis, e.g. redis://localhost:6379
   OLLAMA_MODEL           Default AI model
   MAX_RESULTS            Default number of results
   TIMEOUT                Default timeout
@@ -69,8 +138,9 @@ ENVIRONMENT VARIABLES:
   LOG_LEVEL              Logging level (ERROR, WARN, INFO, DEBUG)
 
 CONFIGURATION:
-  Create a config.json file to customize default settings.
-  Use --config to specify a custom configuration file.
+  Settings are read from config.json in the working directory when present.
+  Use --config to specify a custom configuration file. Environment variables
+  override the file, and command line options override both.
 
 For more information, visit: https://github.com/yourusername/ollama_websearch
 `;
@@ -78,10 +148,11 @@ For more information, visit: https://github.com/yourusername/ollama_websearch
 /**
  * Parse command line arguments
  */
-function parseCliArgs(): CLIOptions {
-  const args = parseArgs(Deno.args, {
-    string: ["query", "model", "output", "format", "config", "save"],
-    boolean: ["cache", "verbose", "help", "version", "interactive"],
+function parseCliArgs(argv: string[] = Deno.args): CLIOptions {
+  const args = parseArgs(argv, {
+    string: ["query", "model", "output", "format", "config", "save", "provider", "time-range", "lang", "engines", "category", "rules", "session"],
+    boolean: ["cache", "verbose", "help", "version", "interactive", "expand", "markdown", "retrieve", "chat"],
+    negatable: ["cache"],
     alias: {
       "q": "query",
       "m": "model", 
@@ -92,14 +163,12 @@ function parseCliArgs(): CLIOptions {
       "v": "verbose",
       "h": "help",
       "i": "interactive",
-      "s": "save"
+      "s": "save",
+      "x": "expand"
     },
     default: {
       cache: true,
-      verbose: false,
-      format: "console",
-      results: 5,
-      timeout: 30000
+      verbose: false
     }
   });
 
@@ -129,8 +198,8 @@ async function interactiveMode(): Promise<CLIOptions> {
   const resultsInput = prompt("Number of results (default: 5): ");
   const results = resultsInput ? parseInt(resultsInput) : 5;
 
-  const formatInput = prompt("Output format [console/json/markdown/html/text] (default: console): ");
-  const format = formatInput || "console";
+  const formatInput = prompt("Output format [console/json/markdown/html/text] (default: console, or from the save file extension): ");
+  const format = formatInput || undefined;
 
   const saveInput = prompt("Save to file (optional, leave empty to skip): ");
   const save = saveInput || undefined;
@@ -154,7 +223,7 @@ async function interactiveMode(): Promise<CLIOptions> {
 function validateOptions(options: CLIOptions): string[] {
   const errors: string[] = [];
 
-  if (!options.query && !options.interactive) {
+  if (!options.query && !options.interactive && !options.session) {
     errors.push("Search query is required. Use -q or provide as argument.");
   }
 
@@ -170,6 +239,18 @@ function validateOptions(options: CLIOptions): string[] {
     errors.push("Timeout must be at least 1000ms.");
   }
 
+  if (options.provider && !PROVIDER_NAMES.includes(options.provider)) {
+    errors.push(`Provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  if ((options.chat || options.session) && options.format && options.format !== 'console' && !options.output && !options.save) {
+    errors.push("Chat mode prints to the terminal; use --output or --save for other formats.");
+  }
+
+  if (options["time-range"] && !TIME_RANGES.includes(options["time-range"])) {
+    errors.push(`Time range must be one of: ${TIME_RANGES.filter(Boolean).join(', ')}`);
+  }
+
   return errors;
 }
 
@@ -185,10 +266,414 @@ function showVersion() {
 }
 
 /**
- * Main CLI function
+ * Build search() options from CLI options, layered over the file and environment configuration
+ */
+function toSearchOptions(options: CLIOptions): SearchOptions {
+  const config = loadConfig(options.config);
+  const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+  
+  return {
+    ...config,
+    search: {
+      ...config.search,
+      ...(options["time-range"] !== undefined && { timeRange: options["time-range"] }),
+      ...(options.lang && { language: options.lang }),
+      ...(options.engines && { engines: list(options.engines) }),
+      ...(options.category && { categories: list(options.category) })
+    },
+    cache: {
+      ...config.cache,
+      enabled: config.cache.enabled && options.cache !== false
+    },
+    expansion: {
+      ...config.expansion,
+      ...(options.expand && { enabled: true })
+    },
+    extraction: {
+      ...config.extraction,
+      ...(options.markdown && { format: 'markdown' as const })
+    },
+    retrieval: {
+      ...config.retrieval,
+      ...(options.retrieve && { enabled: true })
+    },
+    rules: options.rules ? [...config.rules, ...loadRules(options.rules)] : config.rules,
+    provider: options.provider || config.provider,
+    ollamaModel: options.model || config.ollamaModel,
+    maxResults: options.results || config.maxResults,
+    timeout: options.timeout || config.timeout,
+    outputFormat: options.format || config.outputFormat
+  };
+}
+
+/**
+ * Display performance metrics and statistics
+ */
+async function displayMetrics(result: SearchResult, searchOptions: SearchOptions) {
+  const metrics = result.metrics;
+  const cacheStats = await getCacheStats(searchOptions);
+  
+  console.log('\n📊 Performance Metrics:');
+  console.log('─'.repeat(50));
+  console.log(`⏱️  Total time: ${(metrics.totalTime / 1000).toFixed(2)}s`);
+  console.log(`🔍 Search: ${(metrics.searchTime / 1000).toFixed(2)}s | 🌐 Fetch: ${(metrics.fetchTime / 1000).toFixed(2)}s | 🤖 AI: ${(metrics.aiTime / 1000).toFixed(2)}s`);
+  console.log(`📄 URLs: ${metrics.urlsProcessed}/${metrics.urlsFound} successful` +
+    (metrics.snippetFallbacks ? ` (+${metrics.snippetFallbacks} from search snippets)` : ''));
+  if (metrics.candidatesTried !== undefined) {
+    const reasons = new Map<string, number>();
+    metrics.rejected?.forEach(item => reasons.set(item.reason, (reasons.get(item.reason) ?? 0) + 1));
+    const summary = Array.from(reasons, ([reason, count]) => `${reason}: ${count}`).join(', ');
+    console.log(`🔎 Candidates: ${metrics.candidatesTried} tried over ${metrics.searchPages ?? 0} result pages` +
+      (summary ? ` | Rejected: ${summary}` : ''));
+  }
+  const retries = retrySummary(metrics);
+  if (retries) {
+    console.log(`🔁 Retries: ${retries}`);
+  }
+  console.log(searchOptions.cache?.enabled
+    ? `💾 Cache: ${cacheStats.size} items, ${cacheStats.totalHits} hits, ${cacheStats.averageAge.toFixed(1)}min avg age` +
+      (cacheSummary(metrics) ? ` | This run: ${cacheSummary(metrics)}` : '')
+    : '💾 Cache: disabled');
+  if (metrics.tokens > 0) {
+    console.log(`🎯 Tokens: ${metrics.tokens} generated`);
+  }
+  if (strategySummary(result)) {
+    console.log(`🧩 Summarization: ${strategySummary(result)}`);
+  }
+  console.log('─'.repeat(50));
+}
+
+/**
+ * List the sub-queries of an expanded search and which of them found each source
+ */
+function displaySubQueries(result: SearchResult, print: (message: string) => void) {
+  if (!result.subQueries?.length) return;
+  
+  print('\n🔀 Sub-queries:');
+  result.subQueries.forEach((query, index) => print(`   ${index + 1}. ${query}`));
+  result.sources.forEach((source, index) => {
+    const found = source.queries?.map(query => result.subQueries!.indexOf(query) + 1).join(', ');
+    print(`   [${index + 1}] ${source.url} ← ${found ? `sub-query ${found}` : 'unknown'}` +
+      (source.fusionScore !== undefined ? ` (fusion score ${source.fusionScore.toFixed(4)})` : ''));
+  });
+}
+
+const CACHE_USAGE = "Usage: cli.ts cache stats|list [NAMESPACE]|show <URL|KEY>|purge <PATTERN>|prune|export [FILE]|import <FILE>";
+
+/**
+ * A file written by `cache export`
+ */
+interface CacheExport {
+  version: 1;
+  exported: string;
+  entries: CacheRecord[];
+}
+
+/**
+ * Human-readable age or remaining lifetime, e.g. "45s", "12m", "3h" or "2d"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Finds the entry for `cache show`: the key as given, or the cached page of a URL in either extraction format
+ */
+async function findCacheEntry(cache: Cache, target: string): Promise<CacheRecord | null> {
+  for (const key of [target, `page:${target}`, `page:markdown:${target}`]) {
+    const record = await cache.read(key);
+    if (record) return record;
+  }
+  return null;
+}
+
+/**
+ * Run a cache management command against the configured cache backend
+ *
+ * @param args - The command and its arguments, e.g. ["purge", "page:*example.com"]
+ * @param options - CLI options (--config selects the cache)
+ */
+async function runCacheCommand(args: string[], options: CLIOptions): Promise<void> {
+  const [command, argument] = args;
+  const config = loadConfig(options.config);
+  const cache = openCache(config.cache, message => console.error(`⚠️  ${message}`));
+  if (config.cache.backend === 'memory') {
+    console.error("⚠️  The memory cache only lasts for one run; set cache.backend to sqlite or redis to manage it here");
+  }
+  const now = Date.now();
+
+  switch (command) {
+    case 'stats': {
+      const stats = await cache.stats();
+      const entries = await cache.list();
+      console.log(`💾 Cache (${cache.name}): ${stats.size} entries, ${stats.totalHits} hits, ${stats.averageAge.toFixed(1)}min avg age, ` +
+        formatSize(entries.reduce((sum, entry) => sum + entry.size, 0)));
+      const namespaces = new Map<string, { entries: number; hits: number; size: number }>();
+      for (const entry of entries) {
+        const total = namespaces.get(entry.namespace) ?? { entries: 0, hits: 0, size: 0 };
+        total.entries++;
+        total.hits += entry.hits;
+        total.size += entry.size;
+        namespaces.set(entry.namespace, total);
+      }
+      for (const [namespace, total] of namespaces) {
+        console.log(`   ${(namespace || '-').padEnd(8)}${String(total.entries).padStart(6)} entries${String(total.hits).padStart(7)} hits${formatSize(total.size).padStart(11)}`);
+      }
+      return;
+    }
+    case 'list': {
+      const entries = (await cache.list()).filter(entry => !argument || entry.namespace === argument);
+      if (!entries.length) {
+        console.log(argument ? `No cached ${argument} entries` : 'The cache is empty');
+        return;
+      }
+      console.log(`${'NAMESPACE'.padEnd(10)}${'AGE'.padStart(5)}${'EXPIRES'.padStart(9)}${'HITS'.padStart(6)}${'SIZE'.padStart(11)}  KEY`);
+      for (const entry of entries) {
+        console.log(`${(entry.namespace || '-').padEnd(10)}${formatDuration(now - entry.created).padStart(5)}${formatDuration(entry.expires - now).padStart(9)}` +
+          `${String(entry.hits).padStart(6)}${formatSize(entry.size).padStart(11)}  ${entry.key}`);
+      }
+      return;
+    }
+    case 'show': {
+      if (!argument) throw new Error(`cache show needs a URL or key\n${CACHE_USAGE}`);
+      const record = await findCacheEntry(cache, argument);
+      if (!record) throw new Error(`Nothing cached for ${argument}`);
+
+      console.log(`🔑 ${record.key}`);
+      console.log(`   Namespace: ${namespaceOf(record.key) || '-'} | Age: ${formatDuration(now - record.created)} | ` +
+        `Expires in: ${formatDuration(record.expires - now)} | Hits: ${record.hits} | Size: ${formatSize(new TextEncoder().encode(record.content).length)}`);
+      let content: unknown = record.content;
+      try {
+        content = JSON.parse(record.content);
+      } catch {
+        // Shown as stored
+      }
+      const page = content as { title?: string; text?: unknown; fetchedAt?: string; etag?: string; lastModified?: string } | null;
+      if (namespaceOf(record.key) === 'page' && typeof page?.text === 'string') {
+        if (page.title) console.log(`   Title: ${page.title}`);
+        if (page.fetchedAt) console.log(`   Fetched: ${page.fetchedAt}`);
+        if (page.etag || page.lastModified) console.log(`   Validators: ${[page.etag, page.lastModified].filter(Boolean).join(' | ')}`);
+        console.log(`\n${page.text}`);
+      } else {
+        console.log(`\n${typeof content === 'string' ? content : JSON.stringify(content, null, 2)}`);
+      }
+      return;
+    }
+    case 'purge': {
+      if (!argument) throw new Error(`cache purge needs a pattern, e.g. "page:*example.com"\n${CACHE_USAGE}`);
+      const pattern = new RegExp(argument.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*'));
+      let purged = 0;
+      for (const entry of await cache.list()) {
+        if (pattern.test(entry.key) && await cache.delete(entry.key)) purged++;
+      }
+      console.log(`🗑️  Purged ${purged} entries matching "${argument}"`);
+      return;
+    }
+    case 'prune':
+      console.log(`🧹 Pruned ${await cache.prune()} expired entries`);
+      return;
+    case 'export': {
+      const entries: CacheRecord[] = [];
+      for (const entry of await cache.list()) {
+        const record = await cache.read(entry.key);
+        if (record) entries.push(record);
+      }
+      const data: CacheExport = { version: 1, exported: new Date(now).toISOString(), entries };
+      if (argument) {
+        await Deno.writeTextFile(argument, JSON.stringify(data, null, 2));
+        console.log(`📦 Exported ${entries.length} entries to ${argument}`);
+      } else {
+        console.log(JSON.stringify(data, null, 2));
+      }
+      return;
+    }
+    case 'import': {
+      if (!argument) throw new Error(`cache import needs a file written by cache export\n${CACHE_USAGE}`);
+      const data = JSON.parse(await Deno.readTextFile(argument)) as CacheExport;
+      if (data?.version !== 1 || !Array.isArray(data.entries)) throw new Error(`${argument} is not a cache export`);
+
+      // Oldest first, so the most recently used entries stay in front; each entry gets its original lifetime again
+      let imported = 0;
+      for (const record of [...data.entries].reverse()) {
+        const lifetime = record.expires - record.created;
+        if (typeof record.key === 'string' && typeof record.content === 'string' && lifetime > 0) {
+          await cache.set(record.key, record.content, lifetime);
+          imported++;
+        }
+      }
+      console.log(`📥 Imported ${imported} entries into the ${cache.name} cache`);
+      return;
+    }
+    default:
+      throw new Error(command ? `Unknown cache command "${command}"\n${CACHE_USAGE}` : CACHE_USAGE);
+  }
+}
+
+/**
+ * Run a search and render it to the terminal, streaming the AI response as it arrives
+ */
+async function runSearch(query: string, searchOptions: SearchOptions): Promise<SearchResult> {
+  // Beautiful header with performance info
+  console.log('\n🔍 Ollama Web Search - AI-Powered Research Assistant v2.0');
+  console.log('═'.repeat(70));
+  console.log(`📝 Query: ${query}`);
+  console.log(`⚙️  Model: ${searchOptions.ollamaModel} | Results: ${searchOptions.maxResults} | Cache: ${searchOptions.cache?.enabled ? `${(await getCacheStats(searchOptions)).size} items` : 'off'}`);
+  console.log('═'.repeat(70));
+
+  const encoder = new TextEncoder();
+  let streaming = false;
+  
+  const result = await search(query, {
+    ...searchOptions,
+    onToken: (token) => {
+      if (!streaming) {
+        console.log('\n🤖 AI Analysis & Summary:');
+        console.log('═'.repeat(70));
+        streaming = true;
+      }
+      Deno.stdout.writeSync(encoder.encode(token));
+    }
+  });
+
+  if (result.urls.length === 0) {
+    console.log('⚠️  No search results found. Please try a different query.');
+  } else if (result.sources.length === 0) {
+    console.log('⚠️  No readable content found. Please try a different query.');
+  } else {
+    console.log('\n' + '═'.repeat(70));
+    if (result.citations?.length) {
+      console.log('📚 Sources cited:');
+      result.citations.forEach(citation => console.log(`   [${citation.number}] ${citation.title ? `${citation.title} - ` : ''}${citation.url}`));
+    }
+    if (result.invalidCitations?.length) {
+      console.log(`⚠️  Citations without a source were dropped: ${result.invalidCitations.map(number => `[${number}]`).join(', ')}`);
+    }
+    console.log('✨ Search completed successfully!\n');
+  }
+  
+  // Display performance metrics
+  await displayMetrics(result, searchOptions);
+  return result;
+}
+
+const CHAT_USAGE = "Ask a follow-up question, or: /sources, /search <QUESTION>, /save [FILE], /quit (or an empty line)";
+
+/**
+ * Answers follow-up questions read from the terminal until an empty line, streaming each answer
+ * and saving the session after every turn when a session file is given
+ */
+async function runChat(session: ChatSession, searchOptions: SearchOptions, sessionFile?: string, firstQuestion?: string): Promise<void> {
+  const encoder = new TextEncoder();
+  console.log(`\n💬 Chat about "${session.query}" with ${session.sources.length} sources (${session.turns.length} turns so far)`);
+  console.log(`   ${CHAT_USAGE}`);
+
+  let next = firstQuestion;
+  while (true) {
+    // prompt() returns null at the end of input
+    const line = (next ?? prompt('\n💬 Follow-up:') ?? '').trim();
+    next = undefined;
+    if (!line || line === '/quit' || line === '/exit') break;
+
+    if (line === '/sources') {
+      session.sources.forEach((source, index) => console.log(`   [${index + 1}] ${source.title ? `${source.title} - ` : ''}${source.url}`));
+      continue;
+    }
+    if (line === '/save' || line.startsWith('/save ')) {
+      const file = line.slice(5).trim() || sessionFile;
+      if (!file) {
+        console.log('❌ Usage: /save <FILE>');
+        continue;
+      }
+      await saveSession(session, file);
+      console.log(`💾 Conversation saved to: ${file}`);
+      continue;
+    }
+    const searchFirst = line.startsWith('/search ');
+    if (line.startsWith('/') && !searchFirst) {
+      console.log(`   ${CHAT_USAGE}`);
+      continue;
+    }
+
+    const known = session.sources.length;
+    const metrics = createMetrics();
+    let streaming = false;
+    try {
+      const turn = await followUp(session, searchFirst ? line.slice(8) : line, {
+        ...searchOptions,
+        metrics,
+        ...(searchFirst && { chat: { ...searchOptions.chat, search: 'always' as const } }),
+        onToken: (token) => {
+          if (!streaming) {
+            console.log('\n🤖 Answer:');
+            console.log('═'.repeat(70));
+            streaming = true;
+          }
+          Deno.stdout.writeSync(encoder.encode(token));
+        }
+      });
+
+      console.log('\n' + '═'.repeat(70));
+      if (turn.search) {
+        console.log(`🔎 Searched for "${turn.search}": ${turn.newSources ? `added sources [${known + 1}]-[${known + turn.newSources}]` : 'no new sources'}`);
+      }
+      if (turn.citations?.length) {
+        console.log('📚 Sources cited:');
+        turn.citations.forEach(citation => console.log(`   [${citation.number}] ${citation.title ? `${citation.title} - ` : ''}${citation.url}`));
+      }
+      const retries = retrySummary(metrics);
+      if (retries) {
+        console.log(`🔁 Retries: ${retries}`);
+      }
+      if (sessionFile) await saveSession(session, sessionFile);
+    } catch (error) {
+      console.log(`\n❌ Follow-up failed: ${(error as Error).message}`);
+    }
+  }
+
+  if (sessionFile) {
+    await saveSession(session, sessionFile);
+    console.log(`💾 Conversation saved to: ${sessionFile}`);
+  }
+}
+
+/**
+ * Whether a file exists
  */
-async function main() {
-  let options = parseCliArgs();
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+/**
+ * Main CLI function. The caches opened by the command (SQLite files, Redis connections) are closed when it ends.
+ */
+async function runCli(argv: string[] = Deno.args) {
+  try {
+    await runCommand(argv);
+  } finally {
+    closeCaches();
+  }
+}
+
+/**
+ * Runs the command given on the command line: help, version, a cache command, or a search and chat
+ */
+async function runCommand(argv: string[]) {
+  let options = parseCliArgs(argv);
 
   // Handle special flags
   if (options.help) {
@@ -201,6 +686,17 @@ async function main() {
     return;
   }
 
+  // Cache management, e.g. `cli.ts cache stats`
+  if (options._?.[0] === 'cache') {
+    try {
+      await runCacheCommand(options._.slice(1).map(String), options);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+    return;
+  }
+
   // Interactive mode
   if (options.interactive) {
     options = { ...options, ...await interactiveMode() };
@@ -215,26 +711,10 @@ async function main() {
     Deno.exit(1);
   }
 
-  // Set environment variables from CLI options
-  if (options.model) {
-    Deno.env.set("OLLAMA_MODEL", options.model);
-  }
-  if (options.results) {
-    Deno.env.set("MAX_RESULTS", options.results.toString());
-  }
-  if (options.timeout) {
-    Deno.env.set("TIMEOUT", options.timeout.toString());
-  }
-  if (options.format) {
-    Deno.env.set("OUTPUT_FORMAT", options.format);
-  }
-  if (options.verbose) {
-    Deno.env.set("LOG_LEVEL", "DEBUG");
-  }
-
   // Auto-detect format from save file extension
-  if (options.save && !options.format) {
-    const ext = options.save.split('.').pop()?.toLowerCase();
+  const outputFile = options.output || options.save;
+  if (outputFile && !options.format) {
+    const ext = outputFile.split('.').pop()?.toLowerCase();
     switch (ext) {
       case 'json':
         options.format = 'json';
@@ -254,38 +734,87 @@ async function main() {
     }
   }
 
-  // Update Deno.args for main.ts
-  Deno.args = [options.query!];
+  let searchOptions: SearchOptions;
+  try {
+    searchOptions = toSearchOptions(options);
+  } catch (error) {
+    console.log(`❌ Configuration error: ${(error as Error).message}`);
+    Deno.exit(1);
+  }
+  const format = searchOptions.outputFormat!;
+  
+  // Continue a saved conversation, asking the query (if any) as the first follow-up
+  if (options.session && await fileExists(options.session)) {
+    let session: ChatSession;
+    try {
+      session = await loadSession(options.session);
+    } catch (error) {
+      console.log(`❌ ${(error as Error).message}`);
+      Deno.exit(1);
+    }
+    await runChat(session, searchOptions, options.session, options.query);
+    return;
+  }
+  if (!options.query) {
+    console.log(`❌ Chat session ${options.session} does not exist yet; give a query to start it.`);
+    Deno.exit(1);
+  }
+  
+  // Formatted output on stdout must not be mixed with status lines
+  const printToStdout = format !== 'console' && !outputFile;
+  const status = printToStdout ? console.error : console.log;
 
-  console.log("🚀 Starting Ollama WebSearch...");
+  status("🚀 Starting Ollama WebSearch...");
   if (options.verbose) {
-    console.log(`📊 Configuration:`);
-    console.log(`   Query: ${options.query}`);
-    console.log(`   Model: ${options.model || 'default'}`);
-    console.log(`   Results: ${options.results || 5}`);
-    console.log(`   Format: ${options.format || 'console'}`);
-    if (options.save) {
-      console.log(`   Save to: ${options.save}`);
+    status(`📊 Configuration:`);
+    status(`   Query: ${options.query}`);
+    status(`   Model: ${searchOptions.ollamaModel}`);
+    status(`   Results: ${searchOptions.maxResults}`);
+    status(`   Format: ${format}`);
+    if (outputFile) {
+      status(`   Save to: ${outputFile}`);
     }
   }
 
-  // Import and run main search functionality
   try {
-    await import("./main.ts");
+    if (printToStdout) {
+      const result = await search(options.query!, searchOptions);
+      if (options.verbose) displaySubQueries(result, status);
+      console.log(OutputFormatter.format(result, format));
+      return;
+    }
     
-    // If save option is specified, handle file output
-    if (options.save && options.format !== "console") {
-      console.log(`\n💾 Results saved to: ${options.save}`);
+    const result = await runSearch(options.query!, searchOptions);
+    if (options.verbose) displaySubQueries(result, status);
+    
+    // If an output file is specified, write the formatted result to it
+    if (outputFile) {
+      await OutputFormatter.saveToFile(result, format === 'console' ? 'text' : format, outputFile);
+      console.log(`\n💾 Results saved to: ${outputFile}`);
+    }
+    
+    if ((options.chat || options.session) && result.sources.length) {
+      const session = createSession(result);
+      if (options.session) await saveSession(session, options.session);
+      await runChat(session, searchOptions, options.session);
     }
   } catch (error) {
-    console.log(`❌ Search failed: ${error.message}`);
+    console.log(`❌ Search failed: ${(error as Error).message}`);
+    
+    // Provide helpful suggestions
+    console.log('\n🔧 Troubleshooting suggestions:');
+    console.log('• Ensure SearXNG (or your configured search provider) is reachable');
+    console.log('• Check that Ollama is running (`ollama serve`) and the model is available (`ollama list`)');
+    console.log('• Install a model: `ollama pull llama3.2:1b`');
+    console.log('• Verify your internet connection');
+    console.log('• Try a simpler search query');
     Deno.exit(1);
   }
 }
 
 // Run CLI if this file is being executed directly
 if (import.meta.main) {
-  await main();
+  await runCli();
 }
 
-export { parseCliArgs, validateOptions, interactiveMode };
+export { parseCliArgs, validateOptions, interactiveMode, runCli };
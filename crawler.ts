@@ -0,0 +1,210 @@
+/**
+ * Polite crawling for Ollama WebSearch
+ * robots.txt compliance (cached per host) and global and per-host request rate limits
+ */
+
+import { sleep } from "./pool.ts";
+
+/**
+ * Request rate limits. Per-host limits are raised to a site's robots.txt Crawl-delay.
+ */
+export interface RateLimitSettings {
+  enabled: boolean;
+  requestsPerSecond: number;          // Across all hosts
+  perHostRequestsPerSecond: number;   // For any single host
+}
+
+/**
+ * Settings from the `networking` block of config.json
+ */
+export interface NetworkingSettings {
+  userAgent: string;                  // Sent with search, page and robots.txt requests; its product token selects the robots.txt group
+  respectRobots: boolean;
+  retryDelay: number;                 // Base delay before retrying a failed request (ms), doubled per retry
+  maxRetries: number;                 // Retries of failed search and page requests
+  rateLimit: RateLimitSettings;
+}
+
+export const DEFAULT_USER_AGENT = "Ollama-WebSearch/2.0 (+https://github.com/yourusername/ollama_websearch)";
+
+const ROBOTS_TTL = 1000 * 60 * 60 * 24;       // Successful and 4xx responses, as allowed by RFC 9309
+const ROBOTS_ERROR_TTL = 1000 * 60 * 10;      // Unreachable robots.txt, retried sooner
+
+/**
+ * Parsed robots.txt rules for one user agent
+ */
+export class RobotsTxt {
+  private rules: Array<{ allow: boolean; length: number; regex: RegExp }> = [];
+  readonly crawlDelay?: number;       // Seconds between requests requested by the site
+
+  /**
+   * @param text - robots.txt content
+   * @param userAgent - Our User-Agent; the group naming its product token wins over "*"
+   */
+  constructor(text: string, userAgent: string) {
+    const token = userAgent.split('/')[0].trim().toLowerCase();  // Product token, e.g. "ollama-websearch"
+    const groups: Array<{ agents: string[]; lines: Array<[string, string]> }> = [];
+    let current: { agents: string[]; lines: Array<[string, string]> } | undefined;
+
+    for (const raw of text.split(/\r?\n/)) {
+      const line = raw.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator < 0) continue;
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (key === 'user-agent') {
+        // Consecutive user-agent lines share a group
+        if (!current || current.lines.length > 0) {
+          current = { agents: [], lines: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+      } else if (current && (key === 'allow' || key === 'disallow' || key === 'crawl-delay')) {
+        current.lines.push([key, value]);
+      }
+    }
+
+    const own = groups.filter(group => group.agents.some(agent => agent === token));
+    const selected = own.length ? own : groups.filter(group => group.agents.includes('*'));
+
+    for (const [key, value] of selected.flatMap(group => group.lines)) {
+      if (key === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (delay >= 0) this.crawlDelay = delay;
+      } else if (value) {
+        // An empty Disallow allows everything and needs no rule
+        this.rules.push({ allow: key === 'allow', length: value.length, regex: patternToRegex(value) });
+      }
+    }
+  }
+
+  /**
+   * Checks a path (with query string) against the rules. The longest matching rule wins,
+   * and Allow wins over Disallow for rules of the same length.
+   */
+  isAllowed(path: string): boolean {
+    let best: { allow: boolean; length: number } | undefined;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(path)) continue;
+      if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+    }
+    return best?.allow ?? true;
+  }
+}
+
+/**
+ * Converts a robots.txt path pattern ("*" wildcards, "$" end anchor) into a regular expression
+ */
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+const ALLOW_ALL = new RobotsTxt('', '');
+const DISALLOW_ALL = new RobotsTxt('User-agent: *\nDisallow: /', '');
+
+// robots.txt per origin, shared by all searches in the process
+const robotsCache = new Map<string, { robots: Promise<RobotsTxt>; expires: number }>();
+
+/**
+ * Returns the robots.txt rules for a URL's origin, downloading them on first use.
+ * Following RFC 9309, a missing robots.txt (4xx) allows everything and an
+ * unreachable one (5xx, network error) disallows everything.
+ *
+ * @param url - Any URL on the site
+ * @param settings - Networking settings with the User-Agent
+ * @param timeout - Milliseconds to wait for robots.txt
+ */
+export function getRobots(url: string, settings: NetworkingSettings, timeout: number): Promise<RobotsTxt> {
+  const origin = new URL(url).origin;
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expires > Date.now()) return cached.robots;
+
+  const entry = { robots: Promise.resolve(ALLOW_ALL), expires: Date.now() + ROBOTS_TTL };
+  entry.robots = (async () => {
+    try {
+      await waitForSlot(origin, settings);
+      const response = await fetch(`${origin}/robots.txt`, {
+        signal: AbortSignal.timeout(timeout),
+        headers: { 'User-Agent': settings.userAgent, 'Accept': 'text/plain' }
+      });
+      if (response.ok) return new RobotsTxt(await response.text(), settings.userAgent);
+      await response.body?.cancel();
+      if (response.status >= 400 && response.status < 500) return ALLOW_ALL;
+      throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error(`🟡 robots.txt for ${origin} unavailable (${(error as Error).message}), not crawling the site`);
+      entry.expires = Date.now() + ROBOTS_ERROR_TTL;
+      return DISALLOW_ALL;
+    }
+  })();
+
+  robotsCache.set(origin, entry);
+  return entry.robots;
+}
+
+/**
+ * Checks whether robots.txt allows fetching a URL. Non-HTTP URLs are always allowed.
+ *
+ * @returns Whether the URL may be fetched, and the site's Crawl-delay in seconds
+ */
+export async function checkRobots(url: string, settings: NetworkingSettings, timeout: number): Promise<{ allowed: boolean; crawlDelay?: number }> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return { allowed: true };
+
+  const robots = await getRobots(url, settings, timeout);
+  return { allowed: robots.isAllowed(parsed.pathname + parsed.search), crawlDelay: robots.crawlDelay };
+}
+
+// Rate limiter state: next free slot per host, and request start times of the last second
+const nextSlotByHost = new Map<string, number>();
+const recentStarts: number[] = [];
+
+/**
+ * Waits until a request to the URL's host fits within the per-host and global rate limits
+ *
+ * @param url - URL about to be requested
+ * @param settings - Networking settings with the rate limits
+ * @param crawlDelay - The host's robots.txt Crawl-delay in seconds, if any
+ * @param maxWait - Give up without waiting if the host's next slot is further away (ms)
+ * @param signal - Cancels the wait, rejecting with the signal's reason
+ * @returns Promise<boolean> - false if the wait would exceed maxWait
+ */
+export async function waitForSlot(url: string, settings: NetworkingSettings, crawlDelay = 0, maxWait = Infinity, signal?: AbortSignal): Promise<boolean> {
+  const limits = settings.rateLimit;
+  if (!limits?.enabled) return true;
+
+  const host = new URL(url).host;
+  const hostInterval = Math.max(limits.perHostRequestsPerSecond > 0 ? 1000 / limits.perHostRequestsPerSecond : 0, crawlDelay * 1000);
+
+  // Reserve the host's next slot before waiting, so concurrent requests queue up behind each other
+  const start = Date.now();
+  const slot = Math.max(start, nextSlotByHost.get(host) ?? 0);
+  if (slot - start > maxWait) return false;
+  nextSlotByHost.set(host, slot + hostInterval);
+  if (slot > start) await sleep(slot - start, signal);
+
+  // Then allow at most requestsPerSecond request starts in any one-second window across hosts
+  while (limits.requestsPerSecond > 0) {
+    const now = Date.now();
+    while (recentStarts.length && recentStarts[0] <= now - 1000) recentStarts.shift();
+    if (recentStarts.length < limits.requestsPerSecond) break;
+    await sleep(recentStarts[0] + 1000 - now, signal);
+  }
+  recentStarts.push(Date.now());
+  return true;
+}
+
+/**
+ * Forgets cached robots.txt files and rate limiter state
+ */
+export function resetCrawlState(): void {
+  robotsCache.clear();
+  nextSlotByHost.clear();
+  recentStarts.length = 0;
+}
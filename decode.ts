@@ -0,0 +1,132 @@
+/**
+ * Response body decoding for Ollama WebSearch
+ * Reads bodies as a stream up to a byte cap, unpacks gzip payloads and decodes
+ * pages in legacy character sets (Shift-JIS, windows-1251, ...)
+ */
+
+/**
+ * Raw bytes of a response body
+ */
+export interface BodyBytes {
+  data: Uint8Array;
+  truncated: boolean;   // The body was longer than the cap and was cut off
+}
+
+/**
+ * Reads a response body up to maxBytes, cancelling the download once the cap is reached.
+ * Bodies that are still gzip-compressed after the transfer encoding has been removed
+ * (double-compressed or unlabeled .gz responses) are decompressed, and the cap applies
+ * to the decompressed bytes.
+ *
+ * @param response - Response whose body has not been read yet
+ * @param maxBytes - Largest number of bytes to keep
+ * @returns Promise<BodyBytes> - The bytes read and whether the body was truncated
+ */
+export async function readBody(response: Response, maxBytes: number): Promise<BodyBytes> {
+  if (!response.body) return { data: new Uint8Array(), truncated: false };
+
+  // Look at the first chunk for the gzip magic number, then continue with the rest of the body
+  const reader = response.body.getReader();
+  const first = await reader.read();
+  let stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) controller.close();
+      else controller.enqueue(first.value);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+  if (!first.done && first.value[0] === 0x1f && first.value[1] === 0x8b) {
+    stream = stream.pipeThrough(new DecompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  const bytes = stream.getReader();
+  while (true) {
+    const { done, value } = await bytes.read();
+    if (done) break;
+    if (size + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await bytes.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { data, truncated };
+}
+
+/**
+ * Normalizes a charset label to the name of a supported encoding
+ *
+ * @returns string | undefined - e.g. "shift_jis" for "Shift-JIS", or undefined for unknown labels
+ */
+function supportedCharset(label: string | undefined): string | undefined {
+  if (!label) return undefined;
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detects the character encoding of an HTML page, in the order browsers use:
+ * byte order mark, the Content-Type charset, a <meta> declaration in the first
+ * 1024 bytes, then UTF-8 if the bytes are valid UTF-8 and windows-1252 otherwise
+ *
+ * @param data - Raw page bytes
+ * @param contentType - Content-Type response header
+ * @returns string - Encoding name accepted by TextDecoder
+ */
+export function detectCharset(data: Uint8Array, contentType: string): string {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8';
+  if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be';
+  if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le';
+
+  const header = supportedCharset(contentType.match(/charset\s*=\s*["']?([^;"'\s]+)/i)?.[1]);
+  if (header) return header;
+
+  // <meta charset="..."> or <meta http-equiv="Content-Type" content="text/html; charset=...">
+  const head = new TextDecoder('windows-1252').decode(data.subarray(0, 1024));
+  const meta = supportedCharset(head.match(/<meta[^>]*?charset\s*=\s*["']?\s*([^"'\s/>;]+)/i)?.[1]);
+  // A page that could be read to find the declaration cannot be UTF-16
+  if (meta) return meta.startsWith('utf-16') ? 'utf-8' : meta;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Decodes page bytes to text in the detected character encoding
+ *
+ * @param data - Raw page bytes, possibly cut off at the byte cap
+ * @param contentType - Content-Type response header
+ * @returns The text and the encoding it was decoded from
+ */
+export function decodeBody(data: Uint8Array, contentType: string): { text: string; charset: string } {
+  const charset = detectCharset(data, contentType);
+  // Streaming mode leaves out a character cut in half by truncation instead of garbling it
+  return { text: new TextDecoder(charset).decode(data, { stream: true }), charset };
+}
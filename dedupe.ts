@@ -0,0 +1,135 @@
+/**
+ * URL canonicalization and near-duplicate detection for Ollama WebSearch
+ * Keeps syndicated copies of the same article (tracking links, AMP versions, mirrors)
+ * from taking up several slots in the AI context
+ */
+
+/**
+ * Settings from the `dedupe` block of config.json
+ */
+export interface DedupeSettings {
+  canonicalizeUrls: boolean;    // Strip tracking parameters, map AMP URLs and follow rel="canonical"
+  removeNearDuplicates: boolean; // Collapse pages whose text fingerprints nearly match
+  maxDistance: number;          // Maximum simhash Hamming distance (of 64 bits) for a near duplicate
+}
+
+/**
+ * Query parameters that only track the click and never change the page
+ */
+export const TRACKING_PARAMS = [
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'ref_src', 'ref_url',
+  'cmpid', 'ncid', 'sr_share', 'ocid', 'spm'
+];
+
+/**
+ * Normalizes a URL so that tracking and AMP variants of a page compare equal:
+ * drops utm_* and other tracking parameters, AMP markers, fragments and default ports,
+ * and unwraps Google AMP cache URLs. Invalid URLs are returned unchanged.
+ *
+ * @param url - URL as returned by the search provider or found in a page
+ * @returns string - The canonical form of the URL
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url;
+
+  // Google AMP cache: https://example-com.cdn.ampproject.org/c/s/example.com/path
+  const ampCache = parsed.hostname.endsWith('.cdn.ampproject.org') &&
+    parsed.pathname.match(/^\/[a-z]\/(s\/)?([^/]+)(\/.*)?$/);
+  if (ampCache) {
+    const unwrapped = `${ampCache[1] ? 'https' : 'http'}://${ampCache[2]}${ampCache[3] ?? '/'}${parsed.search}`;
+    return unwrapped === url ? url : canonicalizeUrl(unwrapped);
+  }
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+
+  for (const key of Array.from(parsed.searchParams.keys())) {
+    const name = key.toLowerCase();
+    if (name.startsWith('utm_') || TRACKING_PARAMS.includes(name) || name === 'amp' || (name === 'outputtype' && parsed.searchParams.get(key) === 'amp')) {
+      parsed.searchParams.delete(key);
+    }
+  }
+
+  // AMP path conventions: /amp/article, /article/amp, /article.amp, /article.amp.html
+  parsed.pathname = parsed.pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\/amp(?=\/)/i, '')
+    .replace(/\.amp(\.html?)?$/i, (_, extension) => extension ?? '');
+
+  return parsed.toString();
+}
+
+/**
+ * Word shingles (overlapping runs of `size` words) of a text, lowercased and without punctuation
+ */
+export function shingles(text: string, size = 4): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length <= size) return words.length ? [words.join(' ')] : [];
+
+  const result: string[] = [];
+  for (let i = 0; i + size <= words.length; i++) {
+    result.push(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string with a seed, as an unsigned integer
+ */
+function hash32(text: string, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 64-bit simhash fingerprint of a text's shingles. Texts that share most of their
+ * shingles get fingerprints differing in only a few bits.
+ *
+ * @param text - Extracted page text
+ * @returns bigint - Fingerprint to compare with hammingDistance()
+ */
+export function simhash(text: string): bigint {
+  const weights = new Array<number>(64).fill(0);
+
+  for (const shingle of shingles(text)) {
+    const halves = [hash32(shingle, 0), hash32(shingle, 0x9e3779b9)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  return weights.reduce((fingerprint, weight, bit) => weight > 0 ? fingerprint | (1n << BigInt(bit)) : fingerprint, 0n);
+}
+
+/**
+ * Number of differing bits between two fingerprints
+ */
+export function hammingDistance(a: bigint, b: bigint): number {
+  let difference = a ^ b;
+  let count = 0;
+  while (difference) {
+    count += Number(difference & 1n);
+    difference >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Whether two texts are the same content with minor differences (bylines, footers, tracking text)
+ *
+ * @param maxDistance - Largest Hamming distance between the fingerprints still counted as a duplicate
+ */
+export function isNearDuplicate(a: string, b: string, maxDistance = 3): boolean {
+  return hammingDistance(simhash(a), simhash(b)) <= maxDistance;
+}
@@ -0,0 +1,224 @@
+/**
+ * Article extraction helpers for Ollama WebSearch
+ * HTML to Markdown conversion that keeps headings, lists, tables and code, and a
+ * heuristic main-content finder for pages Readability cannot parse
+ */
+
+import * as cheerio from "cheerio";
+import type { ExtractorRule } from "./extractors.ts";
+
+export type ExtractionFormat = 'text' | 'markdown';
+
+export const EXTRACTION_FORMATS: ExtractionFormat[] = ['text', 'markdown'];
+
+/**
+ * Settings from the `extraction` block of config.json
+ */
+export interface ExtractionSettings {
+  format: ExtractionFormat;   // text: plain article text; markdown: keeps headings, lists, tables and code blocks
+  siteExtractors: boolean;    // Use site-specific extractors (Wikipedia, GitHub, Stack Exchange, arXiv, docs) where they match
+  extractors: ExtractorRule[]; // Selector-based extractors for more sites, tried before the built-in ones
+}
+
+/**
+ * The parts of a parsed HTML node used here (domhandler's node shape)
+ */
+interface DomNode {
+  type: string;               // "tag", "text", "script", "style", "comment", ...
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+}
+
+// Elements that never contribute readable text
+const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'button', 'form', 'input', 'select', 'textarea', 'img', 'picture', 'video', 'audio', 'head']);
+
+// Elements rendered as paragraphs of their own
+const BLOCKS = new Set(['p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'figcaption', 'details', 'summary', 'address', 'dl', 'dt', 'dd', 'center', 'body', 'html']);
+
+/**
+ * Converts HTML (typically Readability's article content) to Markdown. Link text is kept
+ * without the URLs, and images and scripts are dropped.
+ *
+ * @param html - HTML document or fragment
+ * @returns string - Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+  const $ = cheerio.load(html, null, false);
+  const fences: string[] = [];
+  const markdown = render($.root()[0] as unknown as DomNode, fences);
+
+  // Normalize whitespace outside code blocks (keeping list indentation), then put the code blocks back verbatim
+  return markdown
+    .split('\n')
+    .map(line => line.replace(/(\S)[ \t]+/g, '$1 ').replace(/^ (?=\S)/, '').replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .replace(/\uE000(\d+)\uE000/g, (_, index) => fences[Number(index)]);
+}
+
+/**
+ * Renders the children of a node
+ */
+function renderChildren(node: DomNode, fences: string[]): string {
+  return (node.children ?? []).map(child => render(child, fences)).join('');
+}
+
+/**
+ * Renders a node and its children. Block elements are surrounded by blank lines that
+ * htmlToMarkdown() collapses; code blocks are replaced by placeholders into `fences`.
+ */
+function render(node: DomNode, fences: string[]): string {
+  if (node.type === 'text') return (node.data ?? '').replace(/\s+/g, ' ');
+  if (node.type === 'root') return renderChildren(node, fences);
+  if (node.type !== 'tag' || !node.name || SKIPPED.has(node.name)) return '';
+
+  const inline = () => renderChildren(node, fences).replace(/\s+/g, ' ').trim();
+  const block = (text: string) => `\n\n${text.trim()}\n\n`;
+  const emphasis = (marker: string) => {
+    const raw = renderChildren(node, fences);
+    const text = raw.replace(/\s+/g, ' ').trim();
+    const space = (test: RegExp) => test.test(raw) ? ' ' : '';
+    return text ? `${space(/^\s/)}${marker}${text}${marker}${space(/\s$/)}` : space(/\s/);
+  };
+
+  switch (node.name) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = inline();
+      return text ? block(`${'#'.repeat(Number(node.name[1]))} ${text}`) : '';
+    }
+    case 'br':
+      return '\n';
+    case 'hr':
+      return block('---');
+    case 'strong': case 'b':
+      return emphasis('**');
+    case 'em': case 'i':
+      return emphasis('_');
+    case 'code': case 'kbd': case 'samp': {
+      const text = textContent(node).replace(/\s+/g, ' ').trim();
+      if (!text) return '';
+      const ticks = text.includes('`') ? '``' : '`';
+      return `${ticks}${text}${ticks}`;
+    }
+    case 'pre':
+      return block(codeFence(node, fences));
+    case 'ul': case 'ol':
+      return block(renderList(node, fences));
+    case 'li':
+      // List items outside a list
+      return block(`- ${inline()}`);
+    case 'blockquote': {
+      const text = renderChildren(node, fences).replace(/\n{3,}/g, '\n\n').trim();
+      return text ? block(text.split('\n').map(line => line ? `> ${line.trim()}` : '>').join('\n')) : '';
+    }
+    case 'table':
+      return block(renderTable(node, fences));
+    default:
+      return BLOCKS.has(node.name) ? block(renderChildren(node, fences)) : renderChildren(node, fences);
+  }
+}
+
+/**
+ * Renders a list, indenting the continuation lines and nested lists of each item
+ */
+function renderList(list: DomNode, fences: string[]): string {
+  const ordered = list.name === 'ol';
+  let number = parseInt(list.attribs?.start ?? '1') || 1;
+
+  return (list.children ?? [])
+    .filter(child => child.type === 'tag' && child.name === 'li')
+    .map(item => {
+      const marker = ordered ? `${number++}. ` : '- ';
+      const lines = renderChildren(item, fences)
+        .replace(/\n{2,}/g, '\n')
+        .split('\n')
+        .map(line => line.replace(/^ (?=\S)/, '').replace(/\s+$/, ''))
+        .filter(line => line.trim());
+      if (!lines.length) return '';
+      return lines.map((line, index) => index === 0 ? marker + line.trim() : ' '.repeat(marker.length) + line).join('\n');
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Renders a table as a GitHub-flavored Markdown table, using the first row as the header
+ */
+function renderTable(table: DomNode, fences: string[]): string {
+  const rows: string[][] = [];
+  const collect = (node: DomNode) => {
+    for (const child of node.children ?? []) {
+      if (child.type !== 'tag') continue;
+      if (child.name === 'tr') {
+        rows.push((child.children ?? [])
+          .filter(cell => cell.type === 'tag' && (cell.name === 'td' || cell.name === 'th'))
+          .map(cell => renderChildren(cell, fences).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')));
+      } else if (child.name !== 'table') {
+        collect(child);   // thead, tbody, tfoot; nested tables are left out
+      }
+    }
+  };
+  collect(table);
+
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return '';
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Stores a <pre> block as a fenced code block and returns its placeholder. The language
+ * comes from a "language-x" or "lang-x" class on the <pre> or its <code> element.
+ */
+function codeFence(pre: DomNode, fences: string[]): string {
+  const code = (pre.children ?? []).find(child => child.type === 'tag' && child.name === 'code');
+  const classes = `${pre.attribs?.class ?? ''} ${code?.attribs?.class ?? ''}`;
+  const language = classes.match(/\b(?:language|lang)-([\w+#-]+)/)?.[1] ?? '';
+  const text = textContent(pre).replace(/^\n/, '').replace(/\s+$/, '');
+  const ticks = '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+
+  fences.push(`${ticks}${language}\n${text}\n${ticks}`);
+  return `\uE000${fences.length - 1}\uE000`;
+}
+
+/**
+ * Text of a node and its descendants, with <br> as line breaks
+ */
+function textContent(node: DomNode): string {
+  if (node.type === 'text') return node.data ?? '';
+  if (node.type === 'tag' && node.name === 'br') return '\n';
+  return (node.children ?? []).map(textContent).join('');
+}
+
+/**
+ * Finds the main content of a page without Readability: the <main> or <article> element,
+ * or else the element holding the most paragraph text, with navigation and other page
+ * furniture removed
+ *
+ * @param html - Complete HTML page
+ * @returns string - HTML of the main content
+ */
+export function findMainContent(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, noscript, template, svg, iframe, nav, header, footer, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]').remove();
+
+  const landmark = $('main, article, [role="main"]').first();
+  if (landmark.length && landmark.text().trim().length >= 200) return $.html(landmark);
+
+  // Score containers by the text of their own paragraphs, code blocks and lists
+  let best = $('body');
+  let bestScore = 0;
+  $('div, section, td').each((_, element) => {
+    const score = $(element).children('p, pre, ul, ol, table, blockquote, h2, h3')
+      .toArray()
+      .reduce((sum, child) => sum + $(child).text().trim().length, 0);
+    if (score > bestScore) {
+      best = $(element);
+      bestScore = score;
+    }
+  });
+  return $.html(best);
+}
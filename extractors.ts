@@ -0,0 +1,400 @@
+/**
+ * Site-specific extractors for Ollama WebSearch
+ * Structured content for sites that generic article extraction handles poorly:
+ * Wikipedia, GitHub, Stack Exchange, arXiv and documentation sites, plus
+ * extractors registered from code or declared in config.json
+ */
+
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { type ExtractionFormat, htmlToMarkdown } from "./extract.ts";
+import { extractMetadata, type PageDocument, type PageMetadata } from "./metadata.ts";
+
+/**
+ * A part of a page's content, rendered under its own heading
+ */
+export interface ContentSection {
+  heading?: string;
+  html: string;
+}
+
+/**
+ * What a site extractor found on a page. Metadata fields override those the page declares.
+ */
+export interface SiteContent {
+  title?: string;
+  sections: ContentSection[];
+  metadata?: PageMetadata;
+}
+
+/**
+ * An extractor for pages whose URL it matches
+ */
+export interface SiteExtractor {
+  name: string;
+  matches: (url: URL) => boolean;
+  /** Returns the page content, or null to fall back to generic extraction */
+  extract: ($: CheerioAPI, url: URL) => SiteContent | null;
+}
+
+/**
+ * A selector-based extractor declared in the `extraction.extractors` list of config.json
+ */
+export interface ExtractorRule {
+  name: string;
+  pattern: string;          // Regular expression tested against the full URL (case-insensitive)
+  content: string;          // CSS selector of the content; all matches are kept, in page order
+  title?: string;           // CSS selector of the title (default: the page's own title)
+  byline?: string;          // CSS selector of the author names
+  remove?: string;          // CSS selector of elements to drop from the content
+}
+
+/**
+ * A page extracted by a site extractor
+ */
+export interface SiteDocument {
+  extractor: string;
+  document: PageDocument;
+}
+
+// A cheerio selection of page elements
+type Selection = ReturnType<CheerioAPI>;
+
+const STACK_EXCHANGE_HOSTS = /(^|\.)(stackoverflow\.com|stackexchange\.com|superuser\.com|serverfault\.com|askubuntu\.com|mathoverflow\.net|stackapps\.com)$/;
+
+// Content containers of common documentation generators, most specific first
+const DOCS_CONTENT = [
+  '.theme-doc-markdown',              // Docusaurus
+  '.md-content__inner',               // MkDocs Material
+  '.sl-markdown-content',             // Starlight
+  '.rst-content [role="main"]',       // Read the Docs theme
+  '.document [role="main"]',          // Sphinx
+  '.markdown-body',
+  'main article',
+  'article',
+  '[role="main"]',
+  'main',
+  '#content'
+];
+
+const DOCS_FURNITURE = 'nav, header, footer, aside, script, style, button, .headerlink, .anchor, .hash-link, .breadcrumbs, .wy-breadcrumbs, .theme-edit-this-page, .pagination-nav, .md-source-file, .toc, .table-of-contents, .copybutton';
+
+const WIKIPEDIA_NOISE = 'style, .mw-editsection, sup.reference, .reference, .reflist, .references, .mw-references-wrap, .navbox, .vertical-navbox, .hatnote, .metadata, .ambox, .sistersitebox, .noprint, #toc, .toc, .mw-empty-elt';
+
+// Trailing Wikipedia sections without article content
+const WIKIPEDIA_BACK_MATTER = /^(References|Notes|Citations|Sources|Bibliography|Further reading|External links|See also)$/i;
+
+/**
+ * Built-in extractors, tried after the registered ones
+ */
+const BUILT_IN: SiteExtractor[] = [
+  {
+    name: 'wikipedia',
+    matches: url => /(^|\.)wikipedia\.org$/.test(url.hostname) && url.pathname.startsWith('/wiki/'),
+    extract: $ => {
+      const content = $('#mw-content-text .mw-parser-output').first();
+      if (!content.length) return null;
+      content.find(WIKIPEDIA_NOISE).remove();
+
+      // Headings are wrapped in <div class="mw-heading"> in newer skins
+      content.find('h2').each((_, element) => {
+        if (!WIKIPEDIA_BACK_MATTER.test($(element).text().trim())) return;
+        const heading = $(element).parent('.mw-heading').length ? $(element).parent() : $(element);
+        heading.nextUntil('h2, .mw-heading2').remove();
+        heading.remove();
+      });
+
+      return {
+        title: text($('#firstHeading')),
+        sections: [{ html: $.html(content) }],
+        metadata: { siteName: 'Wikipedia' }
+      };
+    }
+  },
+  {
+    name: 'github',
+    matches: url => url.hostname === 'github.com' &&
+      /^\/[^/]+\/[^/]+(\/(tree|blob)\/.*|\/(issues|pull|discussions)\/\d+.*)?\/?$/.test(url.pathname),
+    extract: ($, url) => {
+      const [, owner, repo, kind] = url.pathname.split('/');
+      const name = `${owner}/${repo}`;
+
+      if (kind === 'issues' || kind === 'pull' || kind === 'discussions') {
+        const title = text($('.js-issue-title, bdi.markdown-title, [data-testid="issue-title"]').first());
+        const comments = $('.timeline-comment, .react-issue-comment, [data-testid="issue-viewer-issue-container"]').toArray()
+          .map(element => ({
+            author: text($(element).find('.author, [data-testid="issue-body-header-author"]').first()),
+            body: $(element).find('.comment-body, .markdown-body').first()
+          }))
+          .filter(comment => comment.body.length)
+          .slice(0, 20);
+        if (!comments.length) return null;
+
+        const state = text($('.State, [data-testid="header-state"]').first());
+        const noun = kind === 'pull' ? 'Pull request' : kind === 'discussions' ? 'Discussion' : 'Issue';
+        return {
+          title: title ? `${title} · ${name}#${url.pathname.split('/')[4]}` : undefined,
+          sections: comments.map((comment, index) => ({
+            heading: `${index === 0 ? `${noun}${state ? ` (${state.toLowerCase()})` : ''}` : 'Comment'}${comment.author ? ` by ${comment.author}` : ''}`,
+            html: $.html(comment.body)
+          })),
+          metadata: { siteName: 'GitHub', byline: comments[0].author }
+        };
+      }
+
+      // Repository or file view: the rendered README or Markdown file
+      const readme = $('article.markdown-body').first();
+      if (!readme.length) return null;
+      const about = text($('.BorderGrid-cell p.f4').first());
+      return {
+        title: kind === 'blob' ? `${name}: ${url.pathname.split('/').slice(5).join('/')}` : name,
+        sections: [
+          ...(about ? [{ heading: 'About', html: `<p>${escapeHtml(about)}</p>` }] : []),
+          { heading: kind === 'blob' ? undefined : 'README', html: $.html(readme) }
+        ],
+        metadata: { siteName: 'GitHub' }
+      };
+    }
+  },
+  {
+    name: 'stackexchange',
+    matches: url => STACK_EXCHANGE_HOSTS.test(url.hostname) && /^\/questions\/\d+/.test(url.pathname),
+    extract: $ => {
+      const body = (post: Selection) => post.find('.js-post-body, .s-prose, .post-text').first();
+      const score = (post: Selection) =>
+        parseInt(post.attr('data-score') ?? text(post.find('.js-vote-count').first()) ?? '') || 0;
+
+      const question = $('#question, .question').first();
+      if (!body(question).length) return null;
+
+      // The accepted answer, or else the highest-voted one
+      const answers = $('.answer').toArray().map(element => $(element));
+      const accepted = answers.find(answer => answer.is('.accepted-answer, [itemprop="acceptedAnswer"]'));
+      const answer = accepted ?? [...answers].sort((a, b) => score(b) - score(a))[0];
+
+      const tags = $('.post-taglist .post-tag, .js-post-tag-list-item').toArray().map(element => $(element).text().trim()).filter(Boolean);
+      const sections: ContentSection[] = [{
+        heading: `Question (score ${score(question)}${tags.length ? `, tags: ${[...new Set(tags)].join(', ')}` : ''})`,
+        html: $.html(body(question))
+      }];
+      if (answer && body(answer).length) {
+        sections.push({ heading: `${accepted ? 'Accepted answer' : 'Top answer'} (score ${score(answer)})`, html: $.html(body(answer)) });
+      }
+
+      return {
+        title: text($('#question-header h1, h1[itemprop="name"]').first()),
+        sections
+      };
+    }
+  },
+  {
+    name: 'arxiv',
+    matches: url => /(^|\.)arxiv\.org$/.test(url.hostname) && url.pathname.startsWith('/abs/'),
+    extract: $ => {
+      const abstract = $('blockquote.abstract').first();
+      if (!abstract.length) return null;
+      abstract.find('.descriptor').remove();
+
+      const authors = $('.authors a').toArray().map(element => $(element).text().trim()).filter(Boolean);
+      const title = $('h1.title').first();
+      title.find('.descriptor').remove();
+      const subjects = text($('td.subjects').first());
+      const dateline = text($('.dateline').first())?.replace(/^\[|\]$/g, '');
+
+      return {
+        title: text(title),
+        sections: [
+          ...(authors.length ? [{ heading: 'Authors', html: `<p>${escapeHtml(authors.join(', '))}</p>` }] : []),
+          { heading: 'Abstract', html: $.html(abstract) },
+          ...(subjects ? [{ heading: 'Subjects', html: `<p>${escapeHtml(subjects)}</p>` }] : []),
+          ...(dateline ? [{ heading: 'History', html: `<p>${escapeHtml(dateline)}</p>` }] : [])
+        ],
+        metadata: { siteName: 'arXiv', ...(authors.length && { byline: authors.join(', ') }) }
+      };
+    }
+  },
+  {
+    name: 'docs',
+    matches: url => /^(docs|developer|devdocs)\./.test(url.hostname) || /\.readthedocs\.(io|org)$/.test(url.hostname) ||
+      /\/(docs|documentation)\//.test(url.pathname),
+    extract: $ => {
+      for (const selector of DOCS_CONTENT) {
+        const content = $(selector).first();
+        if (!content.length) continue;
+        content.find(DOCS_FURNITURE).remove();
+        if (content.text().trim().length < 200) continue;
+        return { title: text(content.find('h1').first()), sections: [{ html: $.html(content) }] };
+      }
+      return null;
+    }
+  }
+];
+
+// Extractors added with registerExtractor(), newest first
+const registered: SiteExtractor[] = [];
+
+/**
+ * Adds an extractor. Registered extractors are tried before the built-in ones,
+ * the most recently registered first.
+ *
+ * @param extractor - Extractor to add; one with the same name is replaced
+ */
+export function registerExtractor(extractor: SiteExtractor): void {
+  unregisterExtractor(extractor.name);
+  registered.unshift(extractor);
+}
+
+/**
+ * Removes a registered extractor
+ *
+ * @returns boolean - Whether an extractor with that name was registered
+ */
+export function unregisterExtractor(name: string): boolean {
+  const index = registered.findIndex(extractor => extractor.name === name);
+  if (index >= 0) registered.splice(index, 1);
+  return index >= 0;
+}
+
+/**
+ * Describes what is wrong with an extractor rule, or returns undefined for a valid rule
+ */
+function validateExtractorRule(rule: ExtractorRule): string | undefined {
+  if (!rule || typeof rule !== 'object') return 'not an object';
+  if (!rule.name) return 'needs a name';
+  if (!rule.pattern || !rule.content) return 'needs a pattern and a content selector';
+  try {
+    new RegExp(rule.pattern, 'i');
+  } catch (error) {
+    return `invalid pattern: ${(error as Error).message}`;
+  }
+  return undefined;
+}
+
+/**
+ * Builds an extractor from a rule in config.json
+ */
+function ruleExtractor(rule: ExtractorRule): SiteExtractor {
+  const regex = new RegExp(rule.pattern, 'i');
+  return {
+    name: rule.name,
+    matches: url => regex.test(url.href),
+    extract: $ => {
+      const content = $(rule.content);
+      if (rule.remove) content.find(rule.remove).remove();
+      if (!content.text().trim()) return null;
+      const byline = rule.byline ? [...new Set($(rule.byline).toArray().map(element => $(element).text().trim()).filter(Boolean))].join(', ') : '';
+      return {
+        title: rule.title ? text($(rule.title).first()) : undefined,
+        sections: content.toArray().map(element => ({ html: $.html(element) })),
+        metadata: byline ? { byline } : undefined
+      };
+    }
+  };
+}
+
+// Compiled extractor rules per configured list
+const compiledRules = new WeakMap<ExtractorRule[], SiteExtractor[]>();
+
+/**
+ * Compiles extractor rules from config.json, throwing on the first invalid rule
+ *
+ * @param rules - The `extraction.extractors` list
+ * @returns SiteExtractor[] - One extractor per rule, in order
+ */
+export function compileExtractorRules(rules: ExtractorRule[]): SiteExtractor[] {
+  let extractors = compiledRules.get(rules);
+  if (!extractors) {
+    extractors = rules.map((rule, index) => {
+      const problem = validateExtractorRule(rule);
+      if (problem) throw new Error(`Invalid extractor #${index + 1}${rule?.name ? ` (${rule.name})` : ''}: ${problem}`);
+      return ruleExtractor(rule);
+    });
+    compiledRules.set(rules, extractors);
+  }
+  return extractors;
+}
+
+/**
+ * Finds the extractor for a URL: configured rules first, then registered extractors, then the built-ins
+ *
+ * @param url - Page URL
+ * @param rules - Extractor rules from config.json
+ * @returns SiteExtractor | undefined - The first extractor that matches
+ */
+export function findExtractor(url: string, rules: ExtractorRule[] = []): SiteExtractor | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  return [...compileExtractorRules(rules), ...registered, ...BUILT_IN].find(extractor => extractor.matches(parsed));
+}
+
+/**
+ * Extracts a page with the site extractor for its URL. Pages without a matching
+ * extractor, or where the extractor finds nothing, return undefined so the caller
+ * can fall back to generic extraction.
+ *
+ * @param html - Complete HTML page
+ * @param url - Page URL
+ * @param format - "text" for plain text, "markdown" to keep headings, lists, tables and code blocks
+ * @param rules - Extractor rules from config.json
+ * @returns SiteDocument | undefined - The extractor name and the extracted page
+ */
+export function extractSite(html: string, url: string, format: ExtractionFormat, rules: ExtractorRule[] = []): SiteDocument | undefined {
+  const extractor = findExtractor(url, rules);
+  if (!extractor) return undefined;
+
+  const $ = cheerio.load(html);
+  const canonical = $('link[rel~="canonical"]').first().attr('href')?.trim() || undefined;
+  const metadata = extractMetadata($);
+  const pageTitle = text($('title').first());
+
+  let content: SiteContent | null;
+  try {
+    content = extractor.extract($, new URL(url));
+  } catch (error) {
+    console.error(`🟡 ${extractor.name} extractor failed for ${url} (${(error as Error).message}), using generic extraction`);
+    return undefined;
+  }
+  if (!content?.sections.length) return undefined;
+
+  const sections = content.sections
+    .map(section => ({ heading: section.heading, body: renderHtml(section.html, format) }))
+    .filter(section => section.body);
+  if (!sections.length) return undefined;
+
+  const body = sections
+    .map(section => !section.heading ? section.body : format === 'markdown' ? `## ${section.heading}\n\n${section.body}` : `${section.heading}:\n${section.body}`)
+    .join('\n\n');
+
+  return {
+    extractor: extractor.name,
+    document: {
+      ...metadata,
+      ...Object.fromEntries(Object.entries(content.metadata ?? {}).filter(([, value]) => value)),
+      title: content.title || pageTitle,
+      text: body,
+      canonical
+    }
+  };
+}
+
+/**
+ * Renders an HTML fragment in the extraction format
+ */
+function renderHtml(html: string, format: ExtractionFormat): string {
+  return format === 'markdown' ? htmlToMarkdown(html) : cheerio.load(html).text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Trimmed text of an element, or undefined when empty
+ */
+function text(element: Selection): string | undefined {
+  return element.text().replace(/\s+/g, ' ').trim() || undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -4,6 +4,9 @@
  * This application combines real-time web search with AI-powered summarization
  * using SearXNG for search and Ollama for natural language processing.
  * 
+ * Import this module to use the pipeline as a library (see search()), or run it
+ * directly to use the command line interface from cli.ts.
+ * 
  * Author: icyberhack
  * Inspired by: Matt Williams (@technovangelist)
  * License: MIT
@@ -14,14 +17,32 @@ import { Readability } from "@paoramen/cheer-reader";  // Mozilla Readability fo
 import ollama from "ollama";                           // Ollama client for local AI models
 import * as cheerio from "cheerio";                    // jQuery-like server-side HTML manipulation
 
-// Cache and performance tracking
-interface CacheEntry {
-  content: string;
-  timestamp: number;
-  hits: number;
-}
+import { type Cache, type CacheNamespace, type CacheSettings, type CacheStats, hashKey, openCache } from "./cache.ts";
+import { checkRobots, DEFAULT_USER_AGENT, type NetworkingSettings, waitForSlot } from "./crawler.ts";
+import { addSources, CHAT_SEARCH_MODES, type ChatDecision, chatMessages, type ChatSession, type ChatSettings, type ChatTurn, decisionPrompt, parseDecision } from "./chat.ts";
+import { decodeBody, readBody } from "./decode.ts";
+import { canonicalizeUrl, type DedupeSettings, hammingDistance, simhash } from "./dedupe.ts";
+import type { SearchResult } from "./output.ts";
+import { type ExtractionFormat, type ExtractionSettings, findMainContent, htmlToMarkdown } from "./extract.ts";
+import { compileExtractorRules, extractSite } from "./extractors.ts";
+import { extractMetadata, type PageDocument, type PageMetadata, withReadability } from "./metadata.ts";
+import { extractPdfText, isPdf, type PdfSettings } from "./pdf.ts";
+import { abortable, type FetchSettings, runPool, startDeadline } from "./pool.ts";
+import { HttpStatusError, isRetryableStatus, type RetryPolicy, withRetry } from "./retry.ts";
+import { passageContent, rankPassages, type RetrievalSettings, type ScoredPassage, splitPassages } from "./retrieval.ts";
+import { type DomainRule, DomainRules, loadRules } from "./rules.ts";
+import { labelSource, resolveCitations } from "./citations.ts";
+import { chooseStrategy, estimateTokens, type SummarizationSettings, summarizeSources, type SummaryPlan } from "./summarize.ts";
+import {
+  createSearchProvider,
+  type ProvidersConfig,
+  type SearchHit,
+  type SearchProvider,
+  type SearchSettings
+} from "./providers.ts";
 
-interface PerformanceMetrics {
+// Performance tracking
+export interface PerformanceMetrics {
   startTime: number;
   searchTime: number;
   fetchTime: number;
@@ -30,66 +51,102 @@ interface PerformanceMetrics {
   successfulUrls: number;
   cacheHits: number;
   totalTokens: number;
+  snippetFallbacks: number;
+  searchPages: number;         // Result pages requested from the search provider
+  candidatesTried: number;     // Search hits fetched (or served from cache)
+  rejected: RejectedCandidate[];
+  retries: RetryCounts;
+  cache: CacheCounts;
 }
 
-class SimpleCache {
-  private cache = new Map<string, CacheEntry>();
-  private maxSize = 100;
-  private ttl = 1000 * 60 * 60; // 1 hour
-  
-  get(key: string): string | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    if (Date.now() - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    entry.hits++;
-    return entry.content;
-  }
-  
-  set(key: string, content: string): void {
-    if (this.cache.size >= this.maxSize) {
-      // Remove oldest entries
-      const entries = Array.from(this.cache.entries());
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      for (let i = 0; i < this.maxSize * 0.2; i++) {
-        this.cache.delete(entries[i][0]);
-      }
-    }
-    
-    this.cache.set(key, {
-      content,
-      timestamp: Date.now(),
-      hits: 0
-    });
-  }
-  
-  getStats() {
-    const entries = Array.from(this.cache.values());
-    return {
-      size: this.cache.size,
-      totalHits: entries.reduce((sum, entry) => sum + entry.hits, 0),
-      averageAge: entries.length > 0 
-        ? (Date.now() - entries.reduce((sum, entry) => sum + entry.timestamp, 0) / entries.length) / 1000 / 60
-        : 0
-    };
-  }
+/**
+ * Cache hits per namespace; cacheHits is their total
+ */
+export interface CacheCounts {
+  search: number;              // Result pages served from the cache
+  page: number;                // Extracted pages served from the cache
+  answer: number;              // Answers served from the cache
+  embedding: number;           // Passage embeddings of pages served from the cache
+  revalidated: number;         // Pages among them confirmed unchanged by a conditional request
 }
 
-const cache = new SimpleCache();
-const metrics: PerformanceMetrics = {
-  startTime: Date.now(),
-  searchTime: 0,
-  fetchTime: 0,
-  aiTime: 0,
-  totalUrls: 0,
-  successfulUrls: 0,
-  cacheHits: 0,
-  totalTokens: 0
-};
+/**
+ * Retries performed per stage after transient failures
+ */
+export interface RetryCounts {
+  search: number;              // Search provider requests
+  fetch: number;               // Page downloads
+  ai: number;                  // Ollama calls
+}
+
+/**
+ * Why a search hit did not become a source
+ */
+export type RejectReason =
+  | 'excluded'         // Filtered by excludeDomains/excludeFileTypes or an invalid URL
+  | 'http_error'       // Non-2xx response
+  | 'unsupported_type' // Content type that cannot be extracted
+  | 'too_large'        // Document above the size cap
+  | 'robots'           // Disallowed by the site's robots.txt
+  | 'too_short'        // Empty page or too little extracted text
+  | 'timeout'
+  | 'network_error'
+  | 'duplicate'        // Same canonical URL or near-identical text as a higher-ranked source
+  | 'cancelled';       // Fetch stopped at the fetch deadline or once enough sources had arrived
+
+export interface RejectedCandidate {
+  url: string;
+  reason: RejectReason;
+  detail?: string;
+}
+
+/**
+ * Returns the cache for a configuration, or null when caching is disabled
+ */
+function getCache(config: Config): Cache | null {
+  if (!config.cache.enabled) return null;
+  return openCache(config.cache, (message) => log('WARN', message));
+}
+
+/**
+ * Returns statistics for the configured page cache
+ * 
+ * @param options - Configuration overrides selecting the cache
+ * @returns Promise<CacheStats> - Entries, hits and average age (zero when caching is disabled)
+ */
+export async function getCacheStats(options: SearchOptions = {}): Promise<CacheStats> {
+  const cache = getCache(resolveConfig(options));
+  return cache ? await cache.stats() : { size: 0, totalHits: 0, averageAge: 0 };
+}
+
+export function createMetrics(): PerformanceMetrics {
+  return {
+    startTime: Date.now(),
+    searchTime: 0,
+    fetchTime: 0,
+    aiTime: 0,
+    totalUrls: 0,
+    successfulUrls: 0,
+    cacheHits: 0,
+    totalTokens: 0,
+    snippetFallbacks: 0,
+    searchPages: 0,
+    candidatesTried: 0,
+    rejected: [],
+    retries: { search: 0, fetch: 0, ai: 0 },
+    cache: { search: 0, page: 0, answer: 0, embedding: 0, revalidated: 0 }
+  };
+}
+
+/**
+ * Records a cache hit in the metrics
+ */
+function countCacheHit(options: SearchOptions, namespace: CacheNamespace, revalidated = false): void {
+  if (!options.metrics) return;
+  options.metrics.cacheHits++;
+  options.metrics.cache[namespace]++;
+  if (revalidated) options.metrics.cache.revalidated++;
+}
 
 // Enhanced error logging system
 interface LogLevel {
@@ -106,7 +163,7 @@ const LOG_LEVELS: LogLevel = {
   DEBUG: '🟢'
 };
 
-function log(level: keyof LogLevel, message: string, error?: Error) {
+export function log(level: keyof LogLevel, message: string, error?: Error) {
   const timestamp = new Date().toISOString();
   console.error(`${LOG_LEVELS[level]} [${timestamp}] ${message}`);
   if (error && level === 'ERROR') {
@@ -115,26 +172,188 @@ function log(level: keyof LogLevel, message: string, error?: Error) {
 }
 
 // Enhanced configuration with validation
-interface Config {
+export interface Config {
   searchUrl: string;
   maxResults: number;
   ollamaModel: string;
   timeout: number;
-  retryAttempts: number;
+  retryAttempts: number;       // Retries of a failed Ollama call before moving on to the next model
   outputFormat: string;
+  cache: CacheSettings;        // Persistent page cache
+  provider: string;            // Search provider name: searxng, json or local
+  providers: ProvidersConfig;  // Per-provider settings
+  search: SearchSettings;      // Query parameters and result exclusions
+  expansion: ExpansionSettings; // Multi-query expansion
+  dedupe: DedupeSettings;      // URL canonicalization and near-duplicate removal
+  rules: DomainRule[];         // Domain rules: deny, allow-only, boost and demote
+  rulesFile: string;           // JSON file with more rules, read by loadConfig() (empty for none)
+  pdf: PdfSettings;            // PDF extraction limits (PDF results are skipped while ".pdf" is in search.excludeFileTypes)
+  networking: NetworkingSettings; // User-Agent, robots.txt and rate limits for page fetches
+  fetch: FetchSettings;        // Fetch concurrency, overall deadline, early completion and page size cap
+  extraction: ExtractionSettings; // Plain text or Markdown extraction, site-specific extractors
+  summarization: SummarizationSettings; // Context window budget and map-reduce summarization of long sources
+  retrieval: RetrievalSettings; // Embedding-based selection of the passages sent to the model
+  chat: ChatSettings;          // Follow-up questions: when to search again and how much history to send
+}
+
+/**
+ * Multi-query expansion: the model rewrites the query into several sub-queries
+ * whose results are merged with reciprocal-rank fusion
+ */
+export interface ExpansionSettings {
+  enabled: boolean;
+  maxQueries: number;          // Queries searched in total, including the original
 }
 
-const DEFAULT_CONFIG: Config = {
+export const DEFAULT_CONFIG: Config = {
   searchUrl: "http://localhost:9999/search",
   maxResults: 5,
   ollamaModel: "llama3.2:1b",
   timeout: 30000,
   retryAttempts: 3,
-  outputFormat: "console"
+  outputFormat: "console",
+  cache: {
+    enabled: true,
+    backend: "sqlite",
+    maxSize: 100,
+    ttlMinutes: 60,
+    revalidateMinutes: 1440,
+    searchTtlMinutes: 15,
+    answerTtlMinutes: 60,
+    path: "",
+    redisUrl: "redis://localhost:6379",
+    keyPrefix: "websearch:"
+  },
+  provider: "searxng",
+  providers: {},
+  search: {
+    categories: ["general"],
+    timeRange: "",
+    safeSearch: true,
+    language: "en",
+    engines: [],
+    excludeDomains: ["reddit.com", "twitter.com", "facebook.com", "youtube.com"],
+    excludeFileTypes: [".pdf", ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx"],
+    maxPages: 3,
+    timeBudget: 60000
+  },
+  expansion: {
+    enabled: false,
+    maxQueries: 4
+  },
+  dedupe: {
+    canonicalizeUrls: true,
+    removeNearDuplicates: true,
+    maxDistance: 3
+  },
+  rules: [],
+  rulesFile: "",
+  pdf: {
+    maxPages: 20,
+    maxBytes: 10 * 1024 * 1024
+  },
+  networking: {
+    userAgent: DEFAULT_USER_AGENT,
+    respectRobots: true,
+    retryDelay: 1000,
+    maxRetries: 3,
+    rateLimit: {
+      enabled: true,
+      requestsPerSecond: 10,
+      perHostRequestsPerSecond: 2
+    }
+  },
+  fetch: {
+    concurrency: 4,
+    deadline: 45000,
+    minSources: 0,
+    maxBytes: 2 * 1024 * 1024
+  },
+  extraction: {
+    format: "text",
+    siteExtractors: true,
+    extractors: []
+  },
+  summarization: {
+    strategy: "auto",
+    contextWindow: 16384,
+    responseTokens: 2048,
+    summaryTokens: 512,
+    concurrency: 1
+  },
+  retrieval: {
+    enabled: false,
+    model: "nomic-embed-text",
+    topK: 8,
+    passageTokens: 200,
+    queryPrefix: "search_query: ",
+    documentPrefix: "search_document: "
+  },
+  chat: {
+    search: "auto",
+    maxTurns: 6
+  }
 };
 
-function loadConfig(): Config {
-  const config = { ...DEFAULT_CONFIG };
+/**
+ * Options accepted by search() and the exported pipeline stages.
+ * Any Config field left undefined falls back to DEFAULT_CONFIG.
+ */
+export interface SearchOptions extends Partial<Omit<Config, 'cache' | 'search' | 'expansion' | 'dedupe' | 'pdf' | 'networking' | 'fetch' | 'extraction' | 'summarization' | 'retrieval' | 'chat'>> {
+  /** Cache settings to override; unspecified fields keep their defaults */
+  cache?: Partial<CacheSettings>;
+  /** Search settings to override; unspecified fields keep their defaults */
+  search?: Partial<SearchSettings>;
+  /** Expansion settings to override; unspecified fields keep their defaults */
+  expansion?: Partial<ExpansionSettings>;
+  /** Deduplication settings to override; unspecified fields keep their defaults */
+  dedupe?: Partial<DedupeSettings>;
+  /** PDF limits to override; unspecified fields keep their defaults */
+  pdf?: Partial<PdfSettings>;
+  /** Networking settings to override; unspecified fields keep their defaults */
+  networking?: Partial<NetworkingSettings>;
+  /** Fetch pool settings to override; unspecified fields keep their defaults */
+  fetch?: Partial<FetchSettings>;
+  /** Extraction settings to override; unspecified fields keep their defaults */
+  extraction?: Partial<ExtractionSettings>;
+  /** Summarization settings to override; unspecified fields keep their defaults */
+  summarization?: Partial<SummarizationSettings>;
+  /** Passage retrieval settings to override; unspecified fields keep their defaults */
+  retrieval?: Partial<RetrievalSettings>;
+  /** Chat settings to override; unspecified fields keep their defaults */
+  chat?: Partial<ChatSettings>;
+  /** Queries to search instead of the query itself, skipping model expansion */
+  subQueries?: string[];
+  /** Receives each chunk of the AI response as it is streamed */
+  onToken?: (token: string) => void;
+  /** Metrics to accumulate into; search() creates a fresh set per call */
+  metrics?: PerformanceMetrics;
+  /** Search backend to use instead of the one selected by `provider` */
+  searchProvider?: SearchProvider;
+}
+
+/**
+ * Reads a JSON configuration file. A missing or unreadable default file is ignored.
+ */
+function readConfigFile(path: string, explicit: boolean): Record<string, unknown> {
+  try {
+    return JSON.parse(Deno.readTextFileSync(path));
+  } catch (error) {
+    if (explicit || !(error instanceof Deno.errors.NotFound || error instanceof Deno.errors.NotCapable || error instanceof Deno.errors.PermissionDenied)) {
+      log('WARN', `Could not read configuration file ${path}: ${(error as Error).message}`);
+    }
+    return {};
+  }
+}
+
+/**
+ * Builds the configuration from a config file and environment variables, used by the command line entry points.
+ * Throws if the configured rule file cannot be loaded or an extractor rule is invalid.
+ * 
+ * @param configPath - JSON configuration file (default: config.json in the working directory, if present)
+ */
+export function loadConfig(configPath?: string): Config {
+  const config = mergeConfig(DEFAULT_CONFIG, readConfigFile(configPath ?? "config.json", configPath !== undefined));
   
   // Load from environment variables with validation
   if (Deno.env.get("SEARCH_URL")) {
@@ -166,174 +385,560 @@ function loadConfig(): Config {
     }
   }
   
+  if (Deno.env.get("OUTPUT_FORMAT")) {
+    config.outputFormat = Deno.env.get("OUTPUT_FORMAT")!;
+  }
+  
+  if (Deno.env.get("SEARCH_PROVIDER")) {
+    config.provider = Deno.env.get("SEARCH_PROVIDER")!;
+  }
+  
+  // A Redis URL selects the shared Redis cache
+  if (Deno.env.get("REDIS_URL")) {
+    config.cache = { ...config.cache, backend: 'redis', redisUrl: Deno.env.get("REDIS_URL")! };
+  }
+  
+  if (Deno.env.get("RULES_FILE")) {
+    config.rulesFile = Deno.env.get("RULES_FILE")!;
+  }
+  
+  // Rules from the rule file are added after the inline ones; an unreadable or invalid file is an error
+  if (config.rulesFile) {
+    config.rules = [...config.rules, ...loadRules(config.rulesFile)];
+  }
+  
+  // Report invalid extractor rules now rather than on the first matching page
+  compileExtractorRules(config.extraction.extractors);
+  
+  return config;
+}
+
+/**
+ * Merges known Config keys over a base configuration, ignoring undefined values.
+ * Nested objects such as `search` are merged one level deep.
+ */
+function mergeConfig(base: Config, overrides: object): Config {
+  const config = { ...base };
+  for (const key of Object.keys(base) as Array<keyof Config>) {
+    const value = (overrides as Partial<Config>)[key];
+    if (value === undefined) continue;
+    const current = config[key];
+    const nested = current && typeof current === 'object' && !Array.isArray(current) &&
+      value && typeof value === 'object' && !Array.isArray(value);
+    (config as unknown as Record<string, unknown>)[key] = nested ? { ...current, ...value } : value;
+  }
   return config;
 }
 
-const config = loadConfig();
+/**
+ * Resolves the effective configuration for an options object
+ */
+function resolveConfig(options: SearchOptions): Config {
+  return mergeConfig(DEFAULT_CONFIG, options);
+}
 
-// Get user query from command line arguments with validation
-const query = Deno.args.join(" ").trim();
+/**
+ * A successfully fetched and cleaned web page
+ */
+export interface FetchedPage {
+  url: string;           // Canonical URL of the page
+  alternateUrls: string[]; // Other URLs collapsed into this page (tracking and AMP variants, duplicates)
+  title?: string;
+  text: string;          // Clean extracted text
+  content: string;       // Attributed text block as passed to the AI model
+  hit: SearchHit;        // Search result the page came from
+  snippetOnly: boolean;  // True when the page was unusable and the search snippet stands in for it
+  fetchedAt: string;     // ISO timestamp of the original download
+  fetchTime: number;     // Milliseconds spent fetching and extracting this URL
+  contentLength: number; // Length of the extracted text
+  metadata: PageMetadata; // Author, dates, site name, language and description declared by the page
+  charset?: string;      // Character encoding the HTML page was decoded from
+  truncated: boolean;    // True when the page was longer than fetch.maxBytes and was cut off
+}
 
-if (!query) {
-  log('ERROR', 'No search query provided');
-  console.log('❌ Error: Please provide a search query');
-  console.log('Usage: deno run --allow-net --allow-env main.ts "your search query"');
-  Deno.exit(1);
+/**
+ * Outcome of answerQuery()
+ */
+export interface AnswerResult {
+  response: string;
+  model: string;
+  tokens: number;
+  summary: SummaryPlan;    // Whether the sources were answered from directly or summarized first
 }
 
-// Enhanced main execution flow with comprehensive error handling and metrics
-async function main() {
-  try {
-    // Beautiful header with performance info
-    console.log('\n🔍 Ollama Web Search - AI-Powered Research Assistant v2.0');
-    console.log('═'.repeat(70));
-    console.log(`📝 Query: ${query}`);
-    console.log(`⚙️  Model: ${config.ollamaModel} | Results: ${config.maxResults} | Cache: ${cache.getStats().size} items`);
-    console.log('═'.repeat(70));
-
-    // 1. Search phase with timing
-    const searchStart = Date.now();
-    const urls = await getNewsUrls(query);
-    metrics.searchTime = Date.now() - searchStart;
-    metrics.totalUrls = urls.length;
-    
-    if (urls.length === 0) {
-      log('WARN', 'No search results found');
-      console.log('⚠️  No search results found. Please try a different query.');
-      displayMetrics();
-      return;
-    }
-    
-    // 2. Content fetch phase with timing
-    const fetchStart = Date.now();
-    const alltexts = await getCleanedText(urls);
-    metrics.fetchTime = Date.now() - fetchStart;
-    metrics.successfulUrls = alltexts.length;
-    
-    if (alltexts.length === 0) {
-      log('WARN', 'No readable content extracted from search results');
-      console.log('⚠️  No readable content found. Please try a different query.');
-      displayMetrics();
-      return;
+/**
+ * Runs the complete search pipeline: search, fetch and clean pages, then summarize with Ollama.
+ * Has no console output of its own besides log lines on stderr; pass onToken to stream the answer.
+ * 
+ * @param query - The search query string
+ * @param options - Configuration overrides and callbacks
+ * @returns Promise<SearchResult> - Sources, AI response and metrics for the run
+ */
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+  query = query.trim();
+  if (!query) {
+    throw new Error('Search query must not be empty');
+  }
+
+  const config = resolveConfig(options);
+  const metrics = options.metrics ?? createMetrics();
+  const stageOptions: SearchOptions = { ...options, metrics };
+
+  const result: SearchResult = {
+    query,
+    timestamp: new Date().toISOString(),
+    urls: [],
+    sources: [],
+    aiResponse: '',
+    metrics: toResultMetrics(metrics),
+    model: config.ollamaModel,
+    config: resultConfig(config)
+  };
+
+  // 1. Optional query expansion into sub-queries
+  const expansionStart = Date.now();
+  const queries = await resolveQueries(query, config, stageOptions);
+  metrics.aiTime += Date.now() - expansionStart;
+  if (queries.length > 1) result.subQueries = queries;
+
+  // 2. Search and content fetch phases, paging through results until enough sources are extracted
+  const { candidates, pages } = await collectSources(queries, config, stageOptions);
+  result.urls = candidates.map(hit => hit.url);
+  metrics.totalUrls = candidates.length;
+  metrics.successfulUrls = pages.filter(page => !page.snippetOnly).length;
+  result.sources = pages.map(page => ({
+    url: page.url,
+    title: page.title,
+    snippet: page.hit.snippet,
+    engine: page.hit.engine,
+    score: page.hit.score,
+    publishedDate: page.hit.publishedDate,
+    metadata: Object.keys(page.metadata).length ? page.metadata : undefined,
+    alternateUrls: page.alternateUrls.length ? page.alternateUrls : undefined,
+    queries: page.hit.queries,
+    fusionScore: page.hit.fusionScore,
+    snippetOnly: page.snippetOnly,
+    charset: page.charset,
+    truncated: page.truncated,
+    content: page.text,
+    fetchTime: page.fetchTime,
+    contentLength: page.contentLength
+  }));
+  
+  if (candidates.length === 0) {
+    log('WARN', 'No search results found');
+    result.metrics = toResultMetrics(metrics);
+    return result;
+  }
+  
+  if (pages.length === 0) {
+    log('WARN', 'No readable content extracted from search results');
+    result.metrics = toResultMetrics(metrics);
+    return result;
+  }
+
+  // 3. AI response phase with timing, sending only the most relevant passages when retrieval is enabled
+  const aiStart = Date.now();
+  let texts = pages.map(page => page.content);
+  if (config.retrieval.enabled) {
+    try {
+      const passages = await retrievePassages(query, pages, stageOptions);
+      texts = pages.map((page, index) => passageContent(page.content, passages.filter(passage => passage.source === index)));
+      result.sources.forEach((source, index) => {
+        const selected = passages.filter(passage => passage.source === index);
+        if (selected.length) source.passages = selected.map(passage => ({ text: passage.text, score: Number(passage.score.toFixed(4)) }));
+      });
+    } catch (error) {
+      log('WARN', `Passage retrieval with ${config.retrieval.model} failed, sending the full sources: ${(error as Error).message}`);
     }
+  }
+  const answer = await answerQuery(query, texts, stageOptions);
+  metrics.aiTime += Date.now() - aiStart;
+  
+  // Only markers of real sources are kept
+  const cited = resolveCitations(answer.response, result.sources);
+  if (cited.invalid.length) {
+    log('WARN', `Removed citations of sources that do not exist: ${cited.invalid.map(number => `[${number}]`).join(', ')}`);
+  }
+  result.aiResponse = cited.text;
+  result.citations = cited.citations;
+  if (cited.invalid.length) result.invalidCitations = cited.invalid;
+  result.model = answer.model;
+  result.summary = answer.summary;
+  result.metrics = toResultMetrics(metrics);
+  return result;
+}
 
-    // 3. AI response phase with timing
-    console.log('\n🤖 AI Analysis & Summary:');
-    console.log('═'.repeat(70));
-    
-    const aiStart = Date.now();
-    await answerQuery(query, alltexts);
-    metrics.aiTime = Date.now() - aiStart;
-    
-    console.log('\n' + '═'.repeat(70));
-    console.log('✨ Search completed successfully!\n');
-    
-    // Display performance metrics
-    displayMetrics();
-    
-  } catch (error) {
-    log('ERROR', 'Application failed with unexpected error', error as Error);
-    console.log('❌ An unexpected error occurred. Please check your configuration and try again.');
-    
-    // Provide helpful suggestions
-    console.log('\n🔧 Troubleshooting suggestions:');
-    console.log('• Ensure SearXNG is running on the configured URL');
-    console.log('• Check that Ollama is running and the model is available');
-    console.log('• Verify your internet connection');
-    console.log('• Try a simpler search query');
-    
-    displayMetrics();
-    Deno.exit(1);
+/**
+ * The configuration recorded in a result, which JSON output writes out: the values of provider
+ * request headers, where API tokens go, are masked, and so is the password of the Redis URL
+ */
+function resultConfig(config: Config): Config {
+  const providers = Object.fromEntries(Object.entries(config.providers).map(([name, settings]) => [name,
+    settings && 'headers' in settings && settings.headers
+      ? { ...settings, headers: Object.fromEntries(Object.keys(settings.headers).map(header => [header, '***'])) }
+      : settings
+  ]));
+  return { ...config, providers, cache: { ...config.cache, redisUrl: withoutPassword(config.cache.redisUrl) } };
+}
+
+/**
+ * Masks the password of a URL such as redis://:password@host:6379
+ */
+function withoutPassword(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.password) return url;
+    parsed.password = '***';
+    return parsed.toString();
+  } catch {
+    // Not a URL; nothing to mask
+    return url;
   }
 }
 
+function toResultMetrics(metrics: PerformanceMetrics): SearchResult['metrics'] {
+  return {
+    totalTime: Date.now() - metrics.startTime,
+    searchTime: metrics.searchTime,
+    fetchTime: metrics.fetchTime,
+    aiTime: metrics.aiTime,
+    urlsFound: metrics.totalUrls,
+    urlsProcessed: metrics.successfulUrls,
+    cacheHits: metrics.cacheHits,
+    tokens: metrics.totalTokens,
+    snippetFallbacks: metrics.snippetFallbacks,
+    searchPages: metrics.searchPages,
+    candidatesTried: metrics.candidatesTried,
+    rejected: metrics.rejected,
+    retries: { ...metrics.retries },
+    cache: { ...metrics.cache }
+  };
+}
+
 /**
- * Display performance metrics and statistics
+ * Collects up to maxResults extracted pages, requesting further result pages and fetching
+ * replacement candidates as pages fail, within the search.maxPages and search.timeBudget limits.
+ * Fetches run in the bounded pool and are cancelled at the fetch deadline or once fetch.minSources
+ * pages have arrived. Failed candidates with a search snippet are only used when too few pages
+ * could be extracted.
+ * 
+ * @returns The candidates that were tried and the resulting pages, both in rank order
  */
-function displayMetrics() {
-  const totalTime = Date.now() - metrics.startTime;
-  const cacheStats = cache.getStats();
+async function collectSources(queries: string[], config: Config, options: SearchOptions): Promise<{ candidates: SearchHit[]; pages: FetchedPage[] }> {
+  const metrics = options.metrics!;
+  const started = Date.now();
+  const outOfTime = () => Date.now() - started > config.search.timeBudget;
+  const maxPages = Math.max(1, config.search.maxPages);
+  const enough = config.fetch.minSources > 0 ? Math.min(config.fetch.minSources, config.maxResults) : config.maxResults;
+  const deadline = startDeadline(config.fetch.deadline);
+  
+  const seen = new Set<string>();
+  const candidates: SearchHit[] = [];
+  const extracted: Array<{ rank: number; page: FetchedPage }> = [];
+  const fallbacks: Array<{ rank: number; page: FetchedPage }> = [];
+  
+  try {
+    for (let pageno = 1; pageno <= maxPages && extracted.length < enough && !deadline.signal.aborted; pageno++) {
+      if (pageno > 1 && outOfTime()) {
+        log('WARN', `Time budget of ${config.search.timeBudget}ms used up after ${pageno - 1} result pages`);
+        break;
+      }
+      
+      const searchStart = Date.now();
+      let hits: SearchHit[];
+      try {
+        hits = await searchQueries(queries, pageno, config, options);
+      } catch (error) {
+        // The first page is required; later pages are a best effort
+        if (pageno === 1) throw error;
+        log('WARN', `Stopping pagination at page ${pageno}: ${(error as Error).message}`);
+        break;
+      } finally {
+        metrics.searchTime += Date.now() - searchStart;
+      }
+      metrics.searchPages++;
+      
+      const fresh = hits.filter(hit => !seen.has(hit.url));
+      fresh.forEach(hit => seen.add(hit.url));
+      if (fresh.length === 0) break;
+      if (pageno > 1) {
+        log('INFO', `Only ${extracted.length}/${config.maxResults} sources so far, trying ${fresh.length} candidates from result page ${pageno}`);
+      }
+      
+      // Fetch only as many candidates as are still needed, replacing failures from the remaining ones
+      const fetchStart = Date.now();
+      await runPool(fresh, async (hit, signal) => {
+        const rank = candidates.push(hit) - 1;
+        return { rank, hit, page: await fetchCandidate(hit, `[${rank + 1}]`, config, options, signal) };
+      }, {
+        concurrency: config.fetch.concurrency,
+        signal: deadline.signal,
+        canStart: running => extracted.length + running < config.maxResults && !outOfTime(),
+        onResult: ({ rank, hit, page }) => {
+          if (page) {
+            seen.add(page.url);
+            if (addUnique(extracted.map(item => item.page), page, config, options)) {
+              extracted.push({ rank, page });
+            }
+          } else if (hit.snippet) {
+            fallbacks.push({ rank, page: snippetPage(hit) });
+          }
+          return extracted.length >= enough;
+        }
+      });
+      metrics.fetchTime += Date.now() - fetchStart;
+    }
+  } finally {
+    deadline.clear();
+  }
   
-  console.log('\n📊 Performance Metrics:');
-  console.log('─'.repeat(50));
-  console.log(`⏱️  Total time: ${(totalTime / 1000).toFixed(2)}s`);
-  console.log(`🔍 Search: ${(metrics.searchTime / 1000).toFixed(2)}s | 🌐 Fetch: ${(metrics.fetchTime / 1000).toFixed(2)}s | 🤖 AI: ${(metrics.aiTime / 1000).toFixed(2)}s`);
-  console.log(`📄 URLs: ${metrics.successfulUrls}/${metrics.totalUrls} successful`);
-  console.log(`💾 Cache: ${cacheStats.size} items, ${cacheStats.totalHits} hits, ${cacheStats.averageAge.toFixed(1)}min avg age`);
-  if (metrics.totalTokens > 0) {
-    console.log(`🎯 Tokens: ${metrics.totalTokens} generated`);
+  if (deadline.signal.aborted) {
+    log('WARN', `Fetch deadline of ${config.fetch.deadline}ms reached with ${extracted.length}/${config.maxResults} sources`);
+  } else if (extracted.length < config.maxResults && extracted.length >= enough) {
+    log('INFO', `${extracted.length} sources extracted, not waiting for slower pages`);
   }
-  console.log('─'.repeat(50));
+  
+  // Top up with search snippets when not enough pages could be extracted
+  const topUp = fallbacks
+    .filter(({ page }) => !extracted.some(item => item.page.url === page.url))
+    .slice(0, Math.max(0, config.maxResults - extracted.length));
+  metrics.snippetFallbacks += topUp.length;
+  topUp.forEach(({ page }) => log('INFO', `Using search snippet as context for ${page.url}`));
+  
+  const pages = [...extracted, ...topUp].sort((a, b) => a.rank - b.rank).map(({ page }) => page);
+  console.error(`✅ Extracted ${extracted.length}/${config.maxResults} sources from ${candidates.length} candidates` +
+    (topUp.length ? ` (+${topUp.length} from search snippets)` : ''));
+  
+  return { candidates, pages };
+}
+
+/**
+ * Searches for URLs using the configured search provider and returns top results with enhanced error handling
+ * 
+ * @param query - The search query string
+ * @param options - Configuration overrides; with expansion enabled or subQueries given, the sub-queries
+ *   are searched in parallel and their results fused
+ * @returns Promise<SearchHit[]> - Search hits with title, snippet and engine metadata, in ranked order
+ */
+export async function getNewsUrls(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+  const config = resolveConfig(options);
+  const queries = await resolveQueries(query.trim(), config, options);
+  const hits = (await searchQueries(queries, 1, config, options)).slice(0, config.maxResults);
+  
+  log('INFO', `Found ${hits.length} valid URLs to process`);
+  return hits;
 }
 
-// Run the main function
-await main();
+/**
+ * Determines the queries to search: the given sub-queries, the model's expansion of the query, or the query alone
+ */
+async function resolveQueries(query: string, config: Config, options: SearchOptions): Promise<string[]> {
+  const queries = options.subQueries?.map(item => item.trim()).filter(Boolean);
+  if (queries?.length) return queries;
+  if (!config.expansion.enabled) return [query];
+  return await expandQuery(query, options);
+}
 
 /**
- * Searches for URLs using SearXNG and returns top results with enhanced error handling
+ * Asks the Ollama model to rewrite a query into sub-queries (rephrasings, sub-questions and a
+ * latest-news variant). Falls back to the original query alone if the model is unavailable.
  * 
  * @param query - The search query string
- * @returns Promise<string[]> - Array of URLs from search results
+ * @param options - Configuration overrides; expansion.maxQueries limits the number of queries
+ * @returns Promise<string[]> - The original query followed by distinct sub-queries
  */
-async function getNewsUrls(query: string): Promise<string[]> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+export async function expandQuery(query: string, options: SearchOptions = {}): Promise<string[]> {
+  const config = resolveConfig(options);
+  const maxQueries = Math.max(1, config.expansion.maxQueries);
+  if (maxQueries === 1) return [query];
   
+  const prompt = `Rewrite the following web search query into up to ${maxQueries - 1} different search engine queries.
+Include synonyms or rephrasings, sub-questions that cover separate aspects, and one variant aimed at the latest news.
+Keep each query short and in the language of the original.
+
+Query: "${query}"
+
+Reply with JSON only, in the form {"queries": ["...", "..."]}`;
+
   try {
-    log('INFO', `Searching for: "${query}"`);
+    log('INFO', `Expanding query with model: ${config.ollamaModel}`);
+    const result = await withRetry(() => ollama.generate({
+      model: config.ollamaModel,
+      prompt,
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.3, num_predict: 256 }
+    }), aiRetryPolicy(config), (error, delay, retry) => onAiRetry(config.ollamaModel, error, delay, retry, config, options));
     
-    // Query SearXNG instance with timeout and proper error handling
-    const searchUrl = `${config.searchUrl}?q=${encodeURIComponent(query)}&format=json&categories=general&time_range=`;
+    const queries = [query, ...parseQueryList(result.response)];
+    const distinct = queries
+      .filter((item, index) => queries.findIndex(other => other.toLowerCase() === item.toLowerCase()) === index)
+      .slice(0, maxQueries);
     
-    const searchResults = await fetch(searchUrl, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Ollama-WebSearch/2.0',
-        'Accept': 'application/json',
+    log('INFO', `Expanded into ${distinct.length} queries: ${distinct.map(item => `"${item}"`).join(', ')}`);
+    return distinct;
+  } catch (error) {
+    log('WARN', `Query expansion failed, searching the original query only: ${(error as Error).message}`);
+    return [query];
+  }
+}
+
+/**
+ * Reads sub-queries from a model response: a JSON array or {"queries": [...]}, else one query per line
+ */
+function parseQueryList(response: string): string[] {
+  let items: unknown;
+  try {
+    const json = JSON.parse(response);
+    items = Array.isArray(json) ? json : json?.queries;
+  } catch {
+    items = response.split('\n').map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, ''));
+  }
+  
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim().replace(/^["']|["']$/g, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Searches one result page for each query in parallel and fuses the result lists, then applies
+ * the boost and demote rules. A single query is searched directly. Fails only when every query fails.
+ */
+async function searchQueries(queries: string[], pageno: number, config: Config, options: SearchOptions): Promise<SearchHit[]> {
+  const rules = new DomainRules(config.rules);
+  if (queries.length === 1) {
+    return rules.reorder(await searchPage(queries[0], pageno, config, options));
+  }
+  
+  const settled = await Promise.allSettled(queries.map(item => searchPage(item, pageno, config, options)));
+  const lists: SearchHit[][] = [];
+  const succeeded: string[] = [];
+  
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      lists.push(outcome.value);
+      succeeded.push(queries[index]);
+    } else {
+      log('WARN', `Sub-query "${queries[index]}" failed: ${(outcome.reason as Error).message}`);
+    }
+  });
+  
+  if (lists.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  
+  const fused = fuseResults(lists, succeeded);
+  log('INFO', `Fused ${lists.reduce((sum, list) => sum + list.length, 0)} results from ${lists.length} queries into ${fused.length} unique URLs`);
+  return rules.reorder(fused);
+}
+
+/**
+ * Merges ranked result lists with reciprocal-rank fusion: each URL scores the sum of 1 / (k + rank)
+ * over the lists it appears in. Duplicates are merged, keeping the first metadata seen and
+ * recording which queries returned the URL.
+ * 
+ * @param lists - Ranked hits per query
+ * @param queries - The query that produced each list
+ * @param k - Rank smoothing constant (60 is the usual choice)
+ * @returns SearchHit[] - Unique hits ordered by fused score, ties keeping their first-seen order
+ */
+export function fuseResults(lists: SearchHit[][], queries: string[], k = 60): SearchHit[] {
+  const fused = new Map<string, SearchHit>();
+  
+  lists.forEach((hits, listIndex) => {
+    hits.forEach((hit, rank) => {
+      const score = 1 / (k + rank + 1);
+      const existing = fused.get(hit.url);
+      if (!existing) {
+        fused.set(hit.url, { ...hit, queries: [queries[listIndex]], fusionScore: score });
+        return;
       }
+      existing.fusionScore! += score;
+      if (!existing.queries!.includes(queries[listIndex])) existing.queries!.push(queries[listIndex]);
+      mergeHit(existing, hit);
     });
+  });
+  
+  return Array.from(fused.values()).sort((a, b) => b.fusionScore! - a.fusionScore!);
+}
+
+/**
+ * Requests one page of results from the search provider and applies the configured exclusions and deny/allow rules
+ * 
+ * @param query - The search query string
+ * @param pageno - 1-based result page
+ * @param config - Resolved configuration
+ * @param options - Options carrying the provider override and metrics
+ * @returns Promise<SearchHit[]> - All allowed hits of the page, in ranked order
+ */
+async function searchPage(query: string, pageno: number, config: Config, options: SearchOptions): Promise<SearchHit[]> {
+  const rules = new DomainRules(config.rules);
+  
+  try {
+    const provider = options.searchProvider ?? createSearchProvider(config);
+    log('INFO', `Searching for: "${query}" (provider: ${provider.name}${pageno > 1 ? `, page ${pageno}` : ''})`);
     
-    clearTimeout(timeoutId);
+    // Provider results are cached as returned; exclusions and rules are applied on every search
+    const cache = config.cache.searchTtlMinutes > 0 ? getCache(config) : null;
+    const cacheKey = cache ? await hashKey('search', [
+      provider.name, config.searchUrl, config.providers, query, pageno,
+      config.search.categories, config.search.timeRange, config.search.safeSearch, config.search.language, config.search.engines
+    ]) : '';
+    const cached = await cache?.get(cacheKey);
     
-    if (!searchResults.ok) {
-      throw new Error(`Search API returned ${searchResults.status}: ${searchResults.statusText}`);
+    let hits: SearchHit[];
+    if (cached) {
+      hits = JSON.parse(cached);
+      log('INFO', `Using cached search results (${hits.length} hits)`);
+      countCacheHit(options, 'search');
+    } else {
+      // Query the search provider with a timeout per attempt, retrying transient failures
+      hits = await withRetry(async () => {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+        try {
+          return await provider.search(query, { signal: controller.signal, page: pageno });
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }, networkRetryPolicy(config), (error, delay, retry) => {
+        log('WARN', `Search request failed (${error.message}), retry ${retry}/${config.networking.maxRetries} in ${delay}ms`);
+        if (options.metrics) options.metrics.retries.search++;
+      });
+      if (hits.length) await cache?.set(cacheKey, JSON.stringify(hits), config.cache.searchTtlMinutes * 60 * 1000);
     }
     
-    // Parse the JSON response to extract URL array
-    const searchResultsJson: { results?: Array<{ url: string; title?: string; content?: string }> } = 
-      await searchResults.json();
-    
-    if (!searchResultsJson.results || searchResultsJson.results.length === 0) {
-      log('WARN', 'No search results returned from SearXNG');
+    if (hits.length === 0) {
+      log('WARN', `No search results returned from ${provider.name}${pageno > 1 ? ` for page ${pageno}` : ''}`);
       return [];
     }
     
-    // Extract URLs from results and apply intelligent filtering
-    const urls = searchResultsJson.results
-      .filter(result => {
-        try {
-          new URL(result.url);
-          return !result.url.includes('reddit.com/r/') &&  // Skip Reddit threads
-                 !result.url.includes('twitter.com') &&     // Skip social media
-                 !result.url.includes('facebook.com') &&
-                 !result.url.endsWith('.pdf') &&            // Skip PDFs
-                 !result.url.includes('youtube.com/watch'); // Skip videos
-        } catch {
-          return false; // Invalid URL
-        }
-      })
-      .map(result => result.url)
-      .slice(0, config.maxResults);
+    // Canonicalize URLs so tracking and AMP variants are excluded and merged like the page they point to
+    const canonical = config.dedupe.canonicalizeUrls ? hits.map(canonicalHit) : hits;
     
-    log('INFO', `Found ${urls.length} valid URLs to process`);
-    return urls;
+    // Apply the configured exclusions and rules, recording each excluded URL once across pages and sub-queries
+    const unique = new Map<string, SearchHit>();
+    for (const hit of canonical) {
+      const verdict = isAllowedUrl(hit.url, config.search) ? rules.check(hit.url) : { allowed: false, reason: undefined };
+      if (!verdict.allowed) {
+        if (!options.metrics?.rejected.some(item => item.url === hit.url)) {
+          options.metrics?.rejected.push({ url: hit.url, reason: 'excluded', detail: verdict.reason });
+        }
+      } else if (unique.has(hit.url)) {
+        mergeHit(unique.get(hit.url)!, hit);
+      } else {
+        unique.set(hit.url, { ...hit });
+      }
+    }
+    return Array.from(unique.values());
     
   } catch (error) {
-    clearTimeout(timeoutId);
-    
     if (error.name === 'AbortError') {
       log('ERROR', `Search request timed out after ${config.timeout}ms`);
-      throw new Error('Search request timed out. Please try again or check your SearXNG instance.');
+      throw new Error('Search request timed out. Please try again or check your search provider.');
     }
     
     log('ERROR', 'Failed to fetch search results', error as Error);
@@ -342,134 +947,549 @@ async function getNewsUrls(query: string): Promise<string[]> {
 }
 
 /**
- * Fetches and extracts clean text content from an array of URLs with parallel processing
+ * Retry policy for search provider requests and page downloads
+ */
+function networkRetryPolicy(config: Config): RetryPolicy {
+  return { maxRetries: config.networking.maxRetries, retryDelay: config.networking.retryDelay };
+}
+
+/**
+ * Replaces a hit's URL with its canonical form, keeping the original as an alternate URL
+ */
+function canonicalHit(hit: SearchHit): SearchHit {
+  const url = canonicalizeUrl(hit.url);
+  return url === hit.url ? hit : { ...hit, url, alternateUrls: withUrls(hit.alternateUrls, [hit.url], url) };
+}
+
+/**
+ * Merges a duplicate hit into an existing one, filling in missing metadata and collecting its URLs
+ */
+function mergeHit(existing: SearchHit, hit: SearchHit): void {
+  existing.title ??= hit.title;
+  existing.snippet ??= hit.snippet;
+  existing.engine ??= hit.engine;
+  existing.publishedDate ??= hit.publishedDate;
+  const alternateUrls = withUrls(existing.alternateUrls, [hit.url, ...(hit.alternateUrls ?? [])], existing.url);
+  if (alternateUrls.length) existing.alternateUrls = alternateUrls;
+}
+
+/**
+ * Adds URLs to a list without duplicates, leaving out the URL the list belongs to
+ */
+function withUrls(list: string[] | undefined, urls: string[], own: string): string[] {
+  const result = [...(list ?? [])];
+  for (const url of urls) {
+    if (url !== own && !result.includes(url)) result.push(url);
+  }
+  return result;
+}
+
+/**
+ * Checks a search result URL against the excluded domains and file types
+ * 
+ * @param url - Result URL
+ * @param settings - Search settings holding the exclusion lists
+ * @returns boolean - false for invalid or excluded URLs
+ */
+function isAllowedUrl(url: string, settings: SearchSettings): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false; // Invalid URL
+  }
+  
+  // Domains are matched on the host, including subdomains (www.reddit.com but not notreddit.com)
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  const excludedDomain = (settings.excludeDomains ?? []).some(domain => {
+    const excluded = domain.toLowerCase().replace(/^\*?\./, '');
+    return host === excluded || host.endsWith(`.${excluded}`);
+  });
+  if (excludedDomain) return false;
+  
+  const path = parsed.pathname.toLowerCase();
+  return !(settings.excludeFileTypes ?? []).some(type => {
+    const extension = type.toLowerCase();
+    return path.endsWith(extension.startsWith('.') ? extension : `.${extension}`);
+  });
+}
+
+/**
+ * Fetches and extracts clean text content from search hits with parallel processing.
+ * At most fetch.concurrency pages are fetched at a time; fetches still running at the fetch
+ * deadline, or once fetch.minSources pages are extracted, are cancelled.
+ * When a page cannot be used, the hit's search snippet stands in for it if there is one.
  * 
- * @param urls - Array of URLs to fetch content from
- * @returns Promise<string[]> - Array of cleaned text content with source attribution
+ * @param hits - Search hits (or bare URLs) to fetch content from
+ * @param options - Configuration overrides
+ * @returns Promise<FetchedPage[]> - Cleaned text content with source attribution, in input order
  */
-async function getCleanedText(urls: string[]): Promise<string[]> {
-  if (urls.length === 0) {
+export async function getCleanedText(hits: Array<SearchHit | string>, options: SearchOptions = {}): Promise<FetchedPage[]> {
+  if (hits.length === 0) {
     return [];
   }
 
-  console.log(`🌐 Fetching content from ${urls.length} URLs in parallel...`);
+  const config = resolveConfig(options);
+  const items: SearchHit[] = hits.map(hit => typeof hit === 'string' ? { url: hit } : hit);
+  const enough = config.fetch.minSources > 0 ? config.fetch.minSources : Infinity;
+  console.error(`🌐 Fetching content from ${items.length} URLs, ${Math.min(items.length, Math.max(1, config.fetch.concurrency))} at a time...`);
   
-  // Parallel fetch with individual error handling and caching
-  const fetchPromises = urls.map(async (url, index): Promise<string | null> => {
-    // Check cache first
-    const cacheKey = `url:${url}`;
-    const cached = cache.get(cacheKey);
-    if (cached) {
-      console.log(`💾 [${index + 1}/${urls.length}] Cache hit: ${url}`);
-      metrics.cacheHits++;
-      return cached;
-    }
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), config.timeout);
-    
-    try {
-      console.log(`🌐 [${index + 1}/${urls.length}] Fetching: ${url}`);
-      
-      // Enhanced headers to avoid bot detection
-      const getUrl = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Sec-Fetch-Dest': 'document',
-          'Sec-Fetch-Mode': 'navigate',
-          'Sec-Fetch-Site': 'none',
-          'Cache-Control': 'max-age=0',
-        }
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!getUrl.ok) {
-        log('WARN', `HTTP ${getUrl.status} for ${url}: ${getUrl.statusText}`);
-        return null;
-      }
-      
-      // Check content type
-      const contentType = getUrl.headers.get('content-type') || '';
-      if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
-        log('WARN', `Skipping non-HTML content: ${contentType} for ${url}`);
-        return null;
-      }
-      
-      const html = await getUrl.text();
-      
-      if (!html || html.length < 100) {
-        log('WARN', `Content too short or empty for ${url}`);
-        return null;
-      }
-      
-      const text = htmlToText(html);
+  // Pooled fetch with individual error handling and caching
+  const results: Array<FetchedPage | null> = [];
+  let extractedCount = 0;
+  const deadline = startDeadline(config.fetch.deadline);
+  let started: number;
+  try {
+    started = await runPool(items, async (hit, signal, index) => {
+      const page = await fetchCandidate(hit, `[${index + 1}/${items.length}]`, config, options, signal);
+      if (page) return results[index] = page;
       
-      if (!text || text.length < 50) {
-        log('WARN', `Extracted text too short for ${url}`);
-        return null;
+      // Fall back to the search snippet so the source still contributes some context
+      if (hit.snippet) {
+        log('INFO', `Using search snippet as context for ${hit.url}`);
+        if (options.metrics) options.metrics.snippetFallbacks++;
+        return results[index] = snippetPage(hit);
       }
       
-      log('INFO', `Successfully processed ${url} (${text.length} characters)`);
-      
-      // Enhanced source attribution with metadata
-      const result = `📰 Source: ${url}
-📊 Content length: ${text.length} characters
-📅 Fetched: ${new Date().toISOString()}
+      return results[index] = null;
+    }, {
+      concurrency: config.fetch.concurrency,
+      signal: deadline.signal,
+      onResult: page => !!page && !page.snippetOnly && ++extractedCount >= enough
+    });
+  } finally {
+    deadline.clear();
+  }
+  
+  if (started < items.length) {
+    log('WARN', `${deadline.signal.aborted ? 'Fetch deadline reached' : `${extractedCount} pages extracted`}, ${items.length - started} URLs not fetched`);
+  }
+  
+  // Filter out failed requests and collapse duplicates into the first page with the same content
+  const successfulPages: FetchedPage[] = [];
+  for (const page of results) {
+    if (page && addUnique(successfulPages, page, config, options)) successfulPages.push(page);
+  }
+  const fullPages = successfulPages.filter(page => !page.snippetOnly).length;
+  
+  console.error(`✅ Successfully processed ${fullPages}/${items.length} URLs` +
+    (fullPages < successfulPages.length ? ` (+${successfulPages.length - fullPages} from search snippets)` : ''));
+  
+  if (successfulPages.length === 0) {
+    log('WARN', 'No content could be extracted from any URLs');
+  }
+  
+  return successfulPages;
+}
 
-${text}
+// Simhash fingerprints of page texts, computed once per page
+const fingerprints = new WeakMap<FetchedPage, bigint>();
 
-${'─'.repeat(80)}
-`;
-      
-      // Cache the successful result
-      cache.set(cacheKey, result);
-      
-      return result;
-      
-    } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error.name === 'AbortError') {
-        log('WARN', `Timeout fetching ${url} after ${config.timeout}ms`);
-      } else {
-        log('WARN', `Network error for ${url}: ${(error as Error).message}`);
+function fingerprint(page: FetchedPage): bigint {
+  if (!fingerprints.has(page)) fingerprints.set(page, simhash(page.text));
+  return fingerprints.get(page)!;
+}
+
+/**
+ * Checks a page against those already collected. A page with the same URL, or near-identical
+ * text when near-duplicate removal is enabled, is merged into the earlier page: its URLs are
+ * added to that page's alternate URLs and it is recorded as a rejected duplicate.
+ * 
+ * @param pages - Pages collected so far, best ranked first
+ * @param page - Newly fetched page
+ * @returns boolean - true if the page is new and should be added
+ */
+function addUnique(pages: FetchedPage[], page: FetchedPage, config: Config, options: SearchOptions): boolean {
+  const nearDuplicates = config.dedupe.removeNearDuplicates && !page.snippetOnly;
+  const original = pages.find(other => other.url === page.url || (
+    nearDuplicates && !other.snippetOnly && hammingDistance(fingerprint(other), fingerprint(page)) <= config.dedupe.maxDistance
+  ));
+  if (!original) return true;
+  
+  original.alternateUrls = withUrls(original.alternateUrls, [page.url, ...page.alternateUrls], original.url);
+  log('INFO', `Collapsed duplicate ${page.url} into ${original.url}`);
+  options.metrics?.rejected.push({ url: page.url, reason: 'duplicate', detail: `same content as ${original.url}` });
+  return false;
+}
+
+/**
+ * Text extracted from a page, as stored in the cache
+ */
+interface ExtractedPage {
+  title?: string;
+  text: string;
+  fetchedAt: string;
+  canonicalUrl?: string;   // Absolute URL from <link rel="canonical">
+  pdfPages?: { extracted: number; total: number }; // Set for PDF documents
+  metadata?: PageMetadata; // Author, dates, site name, language and description declared by the page
+  charset?: string;        // Set for HTML pages
+  truncated?: boolean;     // The HTML body was cut off at fetch.maxBytes
+  etag?: string;           // Validators of the response, for revalidating the cached copy
+  lastModified?: string;
+  freshUntil?: number;     // Time (ms) until which the cached copy is used without a request
+}
+
+/**
+ * Result of fetchPage(): either the extracted page or why the URL could not be used
+ */
+interface FetchOutcome {
+  extracted?: ExtractedPage;
+  reason?: RejectReason;
+  detail?: string;
+}
+
+/**
+ * Fetches a search hit and builds its page, recording the attempt and any rejection in the metrics
+ * 
+ * @param signal - Cancels the fetch (fetch deadline, or enough sources collected)
+ * @returns Promise<FetchedPage | null> - null when the page was rejected or cancelled
+ */
+async function fetchCandidate(hit: SearchHit, label: string, config: Config, options: SearchOptions, signal?: AbortSignal): Promise<FetchedPage | null> {
+  const started = Date.now();
+  if (options.metrics) options.metrics.candidatesTried++;
+  
+  const outcome = await fetchPage(hit.url, label, config, options, signal);
+  if (outcome.extracted) {
+    const extracted = config.dedupe.canonicalizeUrls ? outcome.extracted : { ...outcome.extracted, canonicalUrl: undefined };
+    return buildPage(hit, extracted, Date.now() - started);
+  }
+  
+  options.metrics?.rejected.push({ url: hit.url, reason: outcome.reason!, detail: outcome.detail });
+  return null;
+}
+
+/**
+ * Cache key of an extracted page; pages are cached separately per extraction format
+ */
+function pageCacheKey(url: string, config: Config): string {
+  return config.extraction.format === 'text' ? `page:${url}` : `page:${config.extraction.format}:${url}`;
+}
+
+/**
+ * Caches an extracted page with the response's validators. Pages that can be revalidated
+ * are kept for cache.revalidateMinutes after they stop being fresh.
+ */
+async function storePage(url: string, extracted: ExtractedPage, response: Response, config: Config): Promise<void> {
+  const cache = getCache(config);
+  if (!cache) return;
+  
+  const fresh = config.cache.ttlMinutes * 60 * 1000;
+  const etag = response.headers.get('etag') ?? extracted.etag;
+  const lastModified = response.headers.get('last-modified') ?? extracted.lastModified;
+  const keep = etag || lastModified ? fresh + config.cache.revalidateMinutes * 60 * 1000 : fresh;
+  await cache.set(pageCacheKey(url, config), JSON.stringify({ ...extracted, etag, lastModified, freshUntil: Date.now() + fresh }), keep);
+}
+
+/**
+ * Fetches one URL (or its cached copy) and extracts the article text
+ * 
+ * @param url - URL to fetch
+ * @param label - Progress label such as "[2/5]"
+ * @param config - Resolved configuration
+ * @param options - Options carrying the metrics to update
+ * @param signal - Cancels the robots.txt check, rate limit wait, download and retries
+ * @returns Promise<FetchOutcome> - The extracted page, or why the URL could not be used
+ */
+async function fetchPage(url: string, label: string, config: Config, options: SearchOptions, signal?: AbortSignal): Promise<FetchOutcome> {
+  // Check cache first; a copy that is no longer fresh is revalidated with a conditional request
+  const cached = await getCache(config)?.get(pageCacheKey(url, config));
+  const stale: ExtractedPage | undefined = cached ? JSON.parse(cached) : undefined;
+  if (stale && (stale.freshUntil ?? Infinity) > Date.now()) {
+    console.error(`💾 ${label} Cache hit: ${url}`);
+    countCacheHit(options, 'page');
+    return { extracted: stale };
+  }
+  
+  // Invalid extractor rules are a configuration error that fails the whole run, like invalid domain rules
+  if (config.extraction.siteExtractors) compileExtractorRules(config.extraction.extractors);
+  
+  const crawling = url.startsWith('http:') || url.startsWith('https:');
+  let crawlDelay: number | undefined;
+  
+  try {
+    // Honor robots.txt and the rate limits before touching the site
+    if (crawling) {
+      if (config.networking.respectRobots) {
+        const robots = await abortable(checkRobots(url, config.networking, config.timeout), signal);
+        if (!robots.allowed) {
+          log('INFO', `Skipping ${url}: disallowed by robots.txt`);
+          return { reason: 'robots', detail: 'disallowed by robots.txt' };
+        }
+        crawlDelay = robots.crawlDelay;
+      }
+      if (!await waitForSlot(url, config.networking, crawlDelay, config.timeout, signal)) {
+        log('WARN', `Skipping ${url}: next request slot for the host is more than ${config.timeout}ms away`);
+        return { reason: 'timeout', detail: 'rate limit wait exceeds timeout' };
       }
+    }
+    
+    console.error(`🌐 ${label} Fetching: ${url}`);
+    
+    // Download with a timeout per attempt; timeouts, dropped connections, 429 and 5xx responses are retried
+    const getUrl = await withRetry(async (attempt) => {
+      if (attempt > 0 && crawling) await waitForSlot(url, config.networking, crawlDelay, Infinity, signal);
       
-      return null;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+      try {
+        const response = await fetch(url, {
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+          headers: {
+            'User-Agent': config.networking.userAgent,
+            'Accept': 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8',
+            'Accept-Language': config.search.language && config.search.language !== 'all'
+              ? `${config.search.language},en;q=0.8`
+              : 'en-US,en;q=0.9',
+            ...(stale?.etag && { 'If-None-Match': stale.etag }),
+            ...(stale?.lastModified && { 'If-Modified-Since': stale.lastModified }),
+          }
+        });
+        if (!response.ok && isRetryableStatus(response.status)) {
+          await response.body?.cancel();
+          throw new HttpStatusError(`HTTP ${response.status}: ${response.statusText}`, response);
+        }
+        return response;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }, networkRetryPolicy(config), (error, delay, retry) => {
+      log('WARN', `${label} ${error.message} for ${url}, retry ${retry}/${config.networking.maxRetries} in ${delay}ms`);
+      if (options.metrics) options.metrics.retries.fetch++;
+    }, signal);
+    
+    // Not modified: the cached copy is fresh again
+    if (getUrl.status === 304 && stale) {
+      await getUrl.body?.cancel();
+      console.error(`💾 ${label} Not modified, using the cached copy: ${url}`);
+      countCacheHit(options, 'page', true);
+      await storePage(url, stale, getUrl, config);
+      return { extracted: stale };
     }
-  });
+    
+    if (!getUrl.ok) {
+      log('WARN', `HTTP ${getUrl.status} for ${url}: ${getUrl.statusText}`);
+      return { reason: 'http_error', detail: `HTTP ${getUrl.status}` };
+    }
+    
+    // Check content type (local files from the local provider carry no header)
+    const contentType = getUrl.headers.get('content-type') ||
+      (url.startsWith('file:') && /\.html?$/i.test(new URL(url).pathname) ? 'text/html' : '');
+    if (isPdf(contentType, url)) {
+      return await fetchPdf(url, getUrl, config);
+    }
+    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+      log('WARN', `Skipping non-HTML content: ${contentType} for ${url}`);
+      return { reason: 'unsupported_type', detail: contentType || 'unknown' };
+    }
+    
+    // Read at most fetch.maxBytes and decode in the page's own character set
+    const body = await readBody(getUrl, config.fetch.maxBytes);
+    const { text: html, charset } = decodeBody(body.data, contentType);
+    if (body.truncated) {
+      log('WARN', `Page larger than ${config.fetch.maxBytes} bytes, using the beginning: ${url}`);
+    }
+    
+    if (!html || html.length < 100) {
+      log('WARN', `Content too short or empty for ${url}`);
+      return { reason: 'too_short', detail: `${html.length} bytes` };
+    }
+    
+    // Site-specific extractors first, then generic article extraction
+    const site = config.extraction.siteExtractors
+      ? extractSite(html, url, config.extraction.format, config.extraction.extractors)
+      : undefined;
+    if (site) log('INFO', `Using the ${site.extractor} extractor for ${url}`);
+    const { title, text, canonical, ...metadata } = site?.document ?? htmlToDocument(html, config.extraction.format);
+    
+    if (!text || text.length < 50) {
+      log('WARN', `Extracted text too short for ${url}`);
+      return { reason: 'too_short', detail: `${text?.length ?? 0} characters extracted` };
+    }
+    
+    log('INFO', `Successfully processed ${url} (${text.length} characters)`);
+    
+    const extracted: ExtractedPage = {
+      title,
+      text,
+      fetchedAt: new Date().toISOString(),
+      canonicalUrl: resolveCanonical(canonical, url),
+      metadata,
+      charset,
+      truncated: body.truncated
+    };
+    
+    // Cache the successful result
+    await storePage(url, extracted, getUrl, config);
+    
+    return { extracted };
+    
+  } catch (error) {
+    if (signal?.aborted) {
+      const detail = (signal.reason as Error)?.message ?? 'cancelled';
+      log('INFO', `Cancelled ${url}: ${detail}`);
+      return { reason: 'cancelled', detail };
+    }
+    
+    if (error instanceof HttpStatusError) {
+      log('WARN', `${error.message} for ${url}`);
+      return { reason: 'http_error', detail: `HTTP ${error.status}` };
+    }
+    
+    if (error.name === 'AbortError') {
+      log('WARN', `Timeout fetching ${url} after ${config.timeout}ms`);
+      return { reason: 'timeout', detail: `${config.timeout}ms` };
+    }
+    
+    log('WARN', `Network error for ${url}: ${(error as Error).message}`);
+    return { reason: 'network_error', detail: (error as Error).message };
+  }
+}
+
+/**
+ * Downloads a PDF response within the size cap and extracts the text of its first pages
+ * 
+ * @param url - Document URL
+ * @param response - Response whose body is the PDF
+ * @param config - Resolved configuration holding the PDF limits
+ * @returns Promise<FetchOutcome> - The extracted document, or why it could not be used
+ */
+async function fetchPdf(url: string, response: Response, config: Config): Promise<FetchOutcome> {
+  const tooLarge = (bytes: number) => {
+    log('WARN', `Skipping PDF larger than ${config.pdf.maxBytes} bytes: ${url}`);
+    return { reason: 'too_large' as RejectReason, detail: `${bytes} bytes` };
+  };
   
-  // Wait for all fetch operations to complete
-  const results = await Promise.all(fetchPromises);
+  const declared = parseInt(response.headers.get('content-length') ?? '');
+  if (declared > config.pdf.maxBytes) {
+    await response.body?.cancel();
+    return tooLarge(declared);
+  }
   
-  // Filter out failed requests and return successful ones
-  const successfulTexts = results.filter((text): text is string => text !== null);
+  // Servers do not always declare the length, so the download itself stops at the cap
+  const { data, truncated } = await readBody(response, config.pdf.maxBytes);
+  if (truncated) {
+    return tooLarge(data.length);
+  }
   
-  console.log(`✅ Successfully processed ${successfulTexts.length}/${urls.length} URLs`);
+  let pdf;
+  try {
+    pdf = await extractPdfText(data, config.pdf);
+  } catch (error) {
+    log('WARN', `Could not parse PDF ${url}: ${(error as Error).message}`);
+    return { reason: 'unsupported_type', detail: `unreadable PDF: ${(error as Error).message}` };
+  }
   
-  if (successfulTexts.length === 0) {
-    log('WARN', 'No content could be extracted from any URLs');
+  if (pdf.text.length < 50) {
+    log('WARN', `Extracted text too short for ${url} (scanned PDFs without a text layer are not supported)`);
+    return { reason: 'too_short', detail: `${pdf.text.length} characters extracted from PDF` };
   }
   
-  return successfulTexts;
+  log('INFO', `Successfully processed PDF ${url} (${pdf.pages}/${pdf.totalPages} pages, ${pdf.text.length} characters)`);
+  
+  const extracted: ExtractedPage = {
+    title: pdf.title,
+    text: pdf.text,
+    fetchedAt: new Date().toISOString(),
+    pdfPages: { extracted: pdf.pages, total: pdf.totalPages }
+  };
+  await storePage(url, extracted, response, config);
+  
+  return { extracted };
+}
+
+/**
+ * Resolves a rel="canonical" link against the page URL. Only http(s) links are accepted.
+ */
+function resolveCanonical(href: string | undefined, pageUrl: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    const resolved = new URL(href, pageUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? canonicalizeUrl(resolved.href) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Page standing in for an unusable search hit, built from its snippet
+ */
+function snippetPage(hit: SearchHit): FetchedPage {
+  return buildPage(hit, { text: hit.snippet!, fetchedAt: new Date().toISOString() }, 0, true);
+}
+
+/**
+ * Combines a search hit with its extracted text into a page with an attributed text block
+ */
+function buildPage(hit: SearchHit, extracted: ExtractedPage, fetchTime: number, snippetOnly = false): FetchedPage {
+  const url = extracted.canonicalUrl ?? hit.url;
+  const title = extracted.title || hit.title;
+  const text = extracted.text;
+  const metadata = extracted.metadata ?? {};
+  
+  // Enhanced source attribution with metadata, so the model can weigh who wrote a source and when
+  const content = [
+    `📰 Source: ${url}`,
+    title ? `🏷️  Title: ${title}` : '',
+    metadata.siteName ? `🏢 Site: ${metadata.siteName}` : '',
+    metadata.byline ? `✍️  Author: ${metadata.byline}` : '',
+    (metadata.publishedTime ?? hit.publishedDate) ? `🗓️  Published: ${metadata.publishedTime ?? hit.publishedDate}` : '',
+    metadata.modifiedTime ? `🔄 Updated: ${metadata.modifiedTime}` : '',
+    metadata.lang ? `🌍 Language: ${metadata.lang}` : '',
+    metadata.description ? `📝 Description: ${metadata.description}` : '',
+    extracted.pdfPages ? `📑 PDF: ${extracted.pdfPages.extracted} of ${extracted.pdfPages.total} pages` : '',
+    extracted.truncated ? `✂️  Truncated: only the beginning of a very long page` : '',
+    snippetOnly ? `⚠️  Page unavailable, search snippet only` : `📊 Content length: ${text.length} characters`,
+    `📅 Fetched: ${extracted.fetchedAt}`
+  ].filter(Boolean).join('\n') + `
+
+${text}
+
+${'─'.repeat(80)}
+`;
+  
+  return {
+    url,
+    alternateUrls: withUrls(hit.alternateUrls, [hit.url], url),
+    title,
+    text,
+    content,
+    hit,
+    snippetOnly,
+    fetchedAt: extracted.fetchedAt,
+    fetchTime,
+    contentLength: text.length,
+    metadata,
+    charset: extracted.charset,
+    truncated: extracted.truncated ?? false
+  };
 }
 
 /**
  * Converts HTML content to clean, readable text using Mozilla Readability
  * 
  * @param html - Raw HTML content from webpage
+ * @param format - "text" for plain text, "markdown" to keep headings, lists, tables and code blocks
  * @returns string - Clean text content suitable for AI processing
  */
-function htmlToText(html: string) {
+export function htmlToText(html: string, format: ExtractionFormat = 'text') {
+	return htmlToDocument(html, format).text;
+}
+
+/**
+ * Extracts the article from an HTML page: title, clean text and metadata such as
+ * author, dates, site name, language and description. Pages Readability cannot parse
+ * fall back to a heuristic main-content finder.
+ * 
+ * @param html - Raw HTML content from webpage
+ * @param format - "text" for plain text, "markdown" to keep headings, lists, tables and code blocks
+ * @returns PageDocument - The article text with the metadata the page declares
+ */
+export function htmlToDocument(html: string, format: ExtractionFormat = 'text'): PageDocument {
 	// Load HTML into cheerio for jQuery-like manipulation
 	const $ = cheerio.load(html);
+	const canonical = $('link[rel~="canonical"]').first().attr("href")?.trim() || undefined;
+	// Read JSON-LD and <meta> tags before Readability strips the scripts
+	const metadata = extractMetadata($);
 
 	// Use Mozilla Readability algorithm for clean text extraction
 	// Thanks to @eliaspereirah for suggesting this approach in the YouTube comments
@@ -497,53 +1517,134 @@ function htmlToText(html: string) {
 	 * const text = $("body").text().replace(/\s+/g, " ");
 	 */
 
-	// Return the cleaned text content
-	return text.textContent;
+	// Readability gives up on some pages (e.g. link lists, app shells); use the densest text block instead
+	let content: string;
+	if (text) {
+		content = format === 'markdown' ? htmlToMarkdown(text.content ?? '') : text.textContent;
+	} else {
+		const main = findMainContent(html);
+		content = format === 'markdown' ? htmlToMarkdown(main) : cheerio.load(main).text().replace(/\s+/g, " ").trim();
+	}
+
+	// Return the cleaned text content along with the article title and metadata
+	return {
+		title: text?.title?.trim() || $("title").first().text().trim() || $("h1").first().text().trim() || undefined,
+		text: content,
+		canonical,
+		...withReadability(metadata, text ?? {}),
+	};
+}
+
+/**
+ * Retry policy for Ollama calls: retryAttempts retries with the networking base delay
+ */
+function aiRetryPolicy(config: Config): RetryPolicy {
+  return { maxRetries: config.retryAttempts, retryDelay: config.networking.retryDelay };
+}
+
+/**
+ * Logs and counts a retried Ollama call
+ */
+function onAiRetry(model: string, error: Error, delay: number, retry: number, config: Config, options: SearchOptions): void {
+  log('WARN', `Ollama request to ${model} failed (${error.message}), retry ${retry}/${config.retryAttempts} in ${delay}ms`);
+  if (options.metrics) options.metrics.retries.ai++;
+}
+
+// Passages embedded per request to the embedding model
+const EMBED_BATCH = 32;
+
+/**
+ * Embeds texts with the retrieval model
+ */
+async function embedTexts(texts: string[], config: Config, options: SearchOptions): Promise<number[][]> {
+  const model = config.retrieval.model;
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH) {
+    const result = await withRetry(() => ollama.embed({ model, input: texts.slice(start, start + EMBED_BATCH) }),
+      aiRetryPolicy(config), (error, delay, retry) => onAiRetry(model, error, delay, retry, config, options));
+    vectors.push(...result.embeddings);
+  }
+  return vectors;
+}
+
+/**
+ * Splits a page into passages and embeds them. The embeddings are cached per URL and reused
+ * while the page text and the passage settings are unchanged.
+ */
+async function embedPage(page: FetchedPage, config: Config, options: SearchOptions): Promise<{ passages: string[]; vectors: number[][] }> {
+  const settings = config.retrieval;
+  const passages = splitPassages(page.text, settings.passageTokens);
+  const cache = getCache(config);
+  const key = `embedding:${settings.model}:${page.url}`;
+  const digest = cache ? await hashKey('embedding', [page.text, settings.passageTokens, settings.documentPrefix]) : '';
+
+  const cached = await cache?.get(key);
+  if (cached) {
+    const entry: { digest: string; vectors: number[][] } = JSON.parse(cached);
+    if (entry.digest === digest && entry.vectors.length === passages.length) {
+      countCacheHit(options, 'embedding');
+      return { passages, vectors: entry.vectors };
+    }
+  }
+
+  const vectors = await embedTexts(passages.map(passage => settings.documentPrefix + passage), config, options);
+  // Six decimals are plenty for ranking and keep the entries small
+  const stored = vectors.map(vector => vector.map(value => Math.round(value * 1e6) / 1e6));
+  await cache?.set(key, JSON.stringify({ digest, vectors: stored }), (config.cache.ttlMinutes + config.cache.revalidateMinutes) * 60 * 1000);
+  return { passages, vectors };
 }
 
 /**
- * Generates AI-powered summary and answer using Ollama with multiple model support
+ * Selects the passages of the pages that are most similar to the query, using the
+ * retrieval.model embedding model (e.g. nomic-embed-text) through Ollama's embeddings API
  * 
- * @param query - The original user query
- * @param texts - Array of cleaned text content from web sources
+ * @param query - The search query string
+ * @param pages - Extracted pages; passage sources are indexes into this array
+ * @param options - Configuration overrides; retrieval.topK limits the passages
+ * @returns Promise<ScoredPassage[]> - The best passages across all pages, highest score first
  */
-async function answerQuery(query: string, texts: string[]): Promise<void> {
-  // Fallback models in order of preference
-  const fallbackModels = [
-    config.ollamaModel,
-    "llama3.2:3b",
-    "llama3.2:1b",
-    "llama3.1:8b",
-    "mistral:7b",
-    "qwen2.5:7b"
-  ];
-  
-  // Combine all text content
-  const combinedContent = texts.join("\n");
-  const contentLength = combinedContent.length;
-  
-  log('INFO', `Generating AI response using model: ${config.ollamaModel}`);
-  log('INFO', `Processing ${contentLength} characters of content`);
+export async function retrievePassages(query: string, pages: FetchedPage[], options: SearchOptions = {}): Promise<ScoredPassage[]> {
+  const config = resolveConfig(options);
+  const settings = config.retrieval;
   
-  // Intelligent context window sizing based on content length
-  let contextSize = 16000; // Default
-  if (contentLength > 50000) contextSize = 32000;
-  if (contentLength > 100000) contextSize = 65536;
+  const sources: Array<{ passages: string[]; vectors: number[][] }> = [];
+  for (const page of pages) {
+    sources.push(await embedPage(page, config, options));
+  }
+  const [queryVector] = await embedTexts([settings.queryPrefix + query], config, options);
   
-  // Enhanced prompt with better structure and instructions
-  const enhancedPrompt = `# Web Search Query Analysis
+  const selected = rankPassages(queryVector, sources, settings.topK);
+  const total = sources.reduce((sum, source) => sum + source.passages.length, 0);
+  log('INFO', `Selected ${selected.length} of ${total} passages from ${new Set(selected.map(passage => passage.source)).size} sources with ${settings.model}`);
+  return selected;
+}
+
+// Models tried after the configured one when it fails, in order of preference
+const FALLBACK_MODELS = [
+  "llama3.2:3b",
+  "llama3.2:1b",
+  "llama3.1:8b",
+  "mistral:7b",
+  "qwen2.5:7b"
+];
+
+/**
+ * The answer prompt: the query, the source texts (or the notes taken from them) and the instructions
+ */
+function answerPrompt(query: string, content: string, fromNotes: boolean): string {
+  return `# Web Search Query Analysis
 
 **Query:** "${query}"
 
-**Task:** Provide a comprehensive, well-structured analysis based on the following web sources.
+**Task:** Provide a comprehensive, well-structured analysis based on the following ${fromNotes ? 'notes taken from web sources' : 'web sources'}.
 
-## Source Content:
-${combinedContent}
+## ${fromNotes ? 'Source Notes' : 'Source Content'}:
+${content}
 
 ## Instructions:
 1. **Analyze the content** thoroughly and provide accurate information
 2. **Structure your response** with clear headings and sections
-3. **Cite key information** but don't overwhelm with too many source references
+3. **Cite your sources** by their numbers in square brackets, e.g. [1] or [2][3], after a space right after the information they support; only cite the numbered sources above
 4. **Be objective** and present multiple perspectives when relevant
 5. **Highlight important facts** and key takeaways
 6. **Keep it comprehensive** but readable
@@ -556,6 +1657,84 @@ ${combinedContent}
 - End with key takeaways or implications
 
 **Begin your analysis:**`;
+}
+
+/**
+ * Generates one partial summary without streaming, trying the models in order. A model that
+ * fails is dropped from the list, so later summaries and the final answer skip it.
+ */
+async function generateSummary(models: string[], prompt: string, maxTokens: number, config: Config, options: SearchOptions): Promise<string> {
+  while (models.length > 0) {
+    const model = models[0];
+    try {
+      const result = await withRetry(() => ollama.generate({
+        model,
+        prompt,
+        stream: false,
+        options: { num_ctx: config.summarization.contextWindow, temperature: 0.3, num_predict: maxTokens }
+      }), aiRetryPolicy(config), (error, delay, retry) => onAiRetry(model, error, delay, retry, config, options));
+      if (options.metrics) options.metrics.totalTokens += result.eval_count ?? 0;
+      return result.response;
+    } catch (error) {
+      log('WARN', `Model ${model} failed to summarize: ${(error as Error).message}`);
+      if (models[0] === model) models.shift();
+    }
+  }
+  throw new Error('Summarizing the sources failed with all available models');
+}
+
+/**
+ * Generates AI-powered summary and answer using Ollama with multiple model support.
+ * Sources that fit the context window (summarization.contextWindow) are answered from in one
+ * prompt; larger ones are summarized against the query first (map-reduce), so that nothing is
+ * cut off by the model.
+ * 
+ * @param query - The original user query
+ * @param texts - Array of cleaned text content from web sources
+ * @param options - Configuration overrides; onToken receives the streamed response
+ * @returns Promise<AnswerResult> - The complete response, the model that produced it and the strategy used
+ */
+export async function answerQuery(query: string, texts: string[], options: SearchOptions = {}): Promise<AnswerResult> {
+  const config = resolveConfig(options);
+  const settings = config.summarization;
+  
+  // Fallback models in order of preference
+  const fallbackModels = [config.ollamaModel, ...FALLBACK_MODELS];
+  
+  // Combine all text content, numbered [1]..[n] for citations; empty texts (sources without
+  // selected passages) are left out but keep their number
+  const labeled = texts.map((text, index) => text && labelSource(text, index)).filter(Boolean);
+  const combinedContent = labeled.join("\n");
+  let prompt = answerPrompt(query, combinedContent, false);
+  const estimatedTokens = estimateTokens(prompt);
+  const strategy = chooseStrategy(estimatedTokens, settings);
+  let summary: SummaryPlan = { strategy, estimatedTokens, contextWindow: settings.contextWindow, parts: 0, rounds: 0 };
+  
+  log('INFO', `Generating AI response using model: ${config.ollamaModel}`);
+  log('INFO', `Processing ${combinedContent.length} characters of content (about ${estimatedTokens} tokens, ` +
+    `context window ${settings.contextWindow}): ${strategy === 'single' ? 'answering in one prompt' : 'summarizing each source first'}`);
+
+  // The prompt holds the query, the instructions and every source text, so a cached answer
+  // is only reused when none of them changed
+  const cache = config.cache.answerTtlMinutes > 0 ? getCache(config) : null;
+  const cacheKey = cache ? await hashKey('answer', [config.ollamaModel, settings.contextWindow, strategy, prompt]) : '';
+  const cached = await cache?.get(cacheKey);
+  if (cached) {
+    const answer: AnswerResult = { summary, ...JSON.parse(cached) };
+    log('INFO', `Using cached answer from ${answer.model}`);
+    countCacheHit(options, 'answer');
+    options.onToken?.(answer.response);
+    return answer;
+  }
+
+  if (strategy === 'map-reduce') {
+    const overhead = estimateTokens(answerPrompt(query, '', true));
+    const { summaries, parts, rounds } = await summarizeSources(query, labeled, overhead, settings,
+      (partPrompt, maxTokens) => generateSummary(fallbackModels, partPrompt, maxTokens, config, options));
+    prompt = answerPrompt(query, summaries.join('\n\n'), true);
+    summary = { ...summary, parts, rounds };
+    log('INFO', `Summarized ${labeled.length} sources in ${parts} parts and ${rounds} round${rounds === 1 ? '' : 's'} (about ${estimateTokens(prompt)} tokens)`);
+  }
 
   let lastError: Error | null = null;
   
@@ -564,43 +1743,49 @@ ${combinedContent}
     try {
       log('INFO', `Attempting to use model: ${modelName}`);
       
-      const result = await ollama.generate({
+      // Only starting the stream is retried, so no streamed tokens are repeated
+      const result = await withRetry(() => ollama.generate({
         model: modelName,
-        prompt: enhancedPrompt,
+        prompt,
         stream: true,
         options: {
-          num_ctx: contextSize,
+          num_ctx: settings.contextWindow,
           temperature: 0.7,
           top_p: 0.9,
           top_k: 40,
           repeat_penalty: 1.1,
-          num_predict: 2048,
+          num_predict: settings.responseTokens,
         },
-      });
+      }), aiRetryPolicy(config), (error, delay, retry) => onAiRetry(modelName, error, delay, retry, config, options));
       
       let hasStarted = false;
       let tokenCount = 0;
+      let response = '';
       
       // Stream the AI response with enhanced feedback
       for await (const chunk of result) {
         if (!hasStarted) {
-          console.log(`🤖 Generating response with ${modelName}...\n`);
+          log('INFO', `Generating response with ${modelName}...`);
           hasStarted = true;
         }
         
         if (chunk.done !== true && chunk.response) {
           tokenCount++;
-          await Deno.stdout.write(new TextEncoder().encode(chunk.response));
+          response += chunk.response;
+          options.onToken?.(chunk.response);
         }
         
         if (chunk.done) {
-          metrics.totalTokens = tokenCount;
           log('INFO', `Response generated successfully with ${modelName} (${tokenCount} tokens)`);
-          return; // Success - exit function
+          break;
         }
       }
       
-      return; // If we get here, generation completed successfully
+      // If we get here, generation completed successfully
+      if (options.metrics) options.metrics.totalTokens += tokenCount;
+      const answer: AnswerResult = { response, model: modelName, tokens: tokenCount, summary };
+      if (response) await cache?.set(cacheKey, JSON.stringify(answer), config.cache.answerTtlMinutes * 60 * 1000);
+      return answer;
       
     } catch (error) {
       lastError = error as Error;
@@ -625,11 +1810,167 @@ ${combinedContent}
   // If all models failed
   log('ERROR', 'All AI models failed to generate response', lastError || new Error('Unknown error'));
   
-  console.log('\n❌ Unable to generate AI response. Please check:');
-  console.log('• Ollama is running: `ollama serve`');
-  console.log('• At least one model is available: `ollama list`');
-  console.log('• Install a model: `ollama pull llama3.2:1b`');
-  console.log(`• Last error: ${lastError?.message || 'Unknown error'}`);
+  throw new Error(`AI response generation failed with all available models (last error: ${lastError?.message || 'Unknown error'})`);
+}
+
+/**
+ * Decides whether a follow-up question is answered from the session's sources or needs a new
+ * search, according to chat.search: always, never, or asking the model (auto). The model also
+ * rewrites the question into a query that stands on its own. When it fails, the sources are reused.
+ * 
+ * @param session - The conversation
+ * @param question - The follow-up question
+ * @param options - Configuration overrides
+ * @returns Promise<ChatDecision> - Whether to search, and the query to search for
+ * @throws Error if chat.search is not a known mode
+ */
+export async function decideFollowUp(session: ChatSession, question: string, options: SearchOptions = {}): Promise<ChatDecision> {
+  const config = resolveConfig(options);
+  const mode = config.chat.search;
+  if (!CHAT_SEARCH_MODES.includes(mode)) {
+    throw new Error(`Unknown chat search mode "${mode}" (expected one of: ${CHAT_SEARCH_MODES.join(', ')})`);
+  }
+  
+  // Without the model, the question searched together with the original query keeps its topic
+  const fallbackQuery = `${session.query} ${question}`;
+  if (mode === 'never') return { search: false, query: fallbackQuery };
+  
+  try {
+    const result = await withRetry(() => ollama.generate({
+      model: config.ollamaModel,
+      prompt: decisionPrompt(session, question),
+      stream: false,
+      format: 'json',
+      options: { temperature: 0, num_predict: 128 }
+    }), aiRetryPolicy(config), (error, delay, retry) => onAiRetry(config.ollamaModel, error, delay, retry, config, options));
+    
+    const decision = parseDecision(result.response, fallbackQuery);
+    return mode === 'always' ? { ...decision, search: true } : decision;
+  } catch (error) {
+    log('WARN', `Could not decide whether to search again, ${mode === 'always' ? 'searching' : 'reusing the sources'}: ${(error as Error).message}`);
+    return { search: mode === 'always', query: fallbackQuery };
+  }
+}
+
+/**
+ * Answers a follow-up question in a chat session through Ollama's chat API, with the session's
+ * sources and earlier turns as message history. When decideFollowUp() asks for it, a new search
+ * runs first and its sources are added to the session with the next numbers; if that search
+ * fails, the question is answered from the sources already there. The session is updated in place.
+ * 
+ * @param session - The conversation, e.g. from createSession() or loadSession()
+ * @param question - The follow-up question
+ * @param options - Configuration overrides; onToken receives the streamed answer
+ * @returns Promise<ChatTurn> - The turn added to the session
+ */
+export async function followUp(session: ChatSession, question: string, options: SearchOptions = {}): Promise<ChatTurn> {
+  question = question.trim();
+  if (!question) {
+    throw new Error('Follow-up question must not be empty');
+  }
+  
+  const config = resolveConfig(options);
+  const metrics = options.metrics ?? createMetrics();
+  const stageOptions: SearchOptions = { ...options, metrics };
   
-  throw new Error('AI response generation failed with all available models');
+  const decisionStart = Date.now();
+  const decision = await decideFollowUp(session, question, stageOptions);
+  metrics.aiTime += Date.now() - decisionStart;
+  
+  let newSources = 0;
+  if (decision.search) {
+    log('INFO', `Searching again for the follow-up: "${decision.query}"${decision.reason ? ` (${decision.reason})` : ''}`);
+    try {
+      const searchStart = Date.now();
+      const known = new Set(session.sources.map(source => source.url));
+      const hits = (await getNewsUrls(decision.query, stageOptions)).filter(hit => !known.has(hit.url));
+      metrics.searchTime += Date.now() - searchStart;
+      
+      const fetchStart = Date.now();
+      const pages = await getCleanedText(hits, stageOptions);
+      metrics.fetchTime += Date.now() - fetchStart;
+      
+      let texts = pages.map(page => page.content);
+      if (config.retrieval.enabled && pages.length) {
+        try {
+          const passages = await retrievePassages(decision.query, pages, stageOptions);
+          texts = pages.map((page, index) => passageContent(page.content, passages.filter(passage => passage.source === index)));
+        } catch (error) {
+          log('WARN', `Passage retrieval with ${config.retrieval.model} failed, adding the full sources: ${(error as Error).message}`);
+        }
+      }
+      newSources = addSources(session, pages
+        .map((page, index) => ({ url: page.url, ...(page.title && { title: page.title }), content: texts[index], query: decision.query }))
+        .filter(source => source.content));
+      log('INFO', `Added ${newSources} sources to the conversation (${session.sources.length} in total)`);
+    } catch (error) {
+      log('WARN', `Search for the follow-up failed, answering from the ${session.sources.length} sources at hand: ${(error as Error).message}`);
+    }
+  } else {
+    log('INFO', `Answering the follow-up from the ${session.sources.length} sources at hand`);
+  }
+  
+  const messages = chatMessages(session, question, config.chat, config.summarization);
+  const models = [config.ollamaModel, ...FALLBACK_MODELS];
+  let lastError: Error | null = null;
+  
+  const aiStart = Date.now();
+  for (const model of models) {
+    try {
+      // Only starting the stream is retried, so no streamed tokens are repeated
+      const stream = await withRetry(() => ollama.chat({
+        model,
+        messages,
+        stream: true,
+        options: {
+          num_ctx: config.summarization.contextWindow,
+          temperature: 0.7,
+          top_p: 0.9,
+          num_predict: config.summarization.responseTokens
+        }
+      }), aiRetryPolicy(config), (error, delay, retry) => onAiRetry(model, error, delay, retry, config, stageOptions));
+      
+      let response = '';
+      let tokenCount = 0;
+      for await (const chunk of stream) {
+        if (!chunk.done && chunk.message?.content) {
+          tokenCount++;
+          response += chunk.message.content;
+          options.onToken?.(chunk.message.content);
+        }
+        if (chunk.done) break;
+      }
+      metrics.totalTokens += tokenCount;
+      metrics.aiTime += Date.now() - aiStart;
+      log('INFO', `Follow-up answered with ${model} (${tokenCount} tokens)`);
+      
+      const cited = resolveCitations(response, session.sources);
+      if (cited.invalid.length) {
+        log('WARN', `Removed citations of sources that do not exist: ${cited.invalid.map(number => `[${number}]`).join(', ')}`);
+      }
+      const turn: ChatTurn = {
+        question,
+        answer: cited.text,
+        model,
+        timestamp: new Date().toISOString(),
+        ...(decision.search && { search: decision.query }),
+        newSources,
+        citations: cited.citations
+      };
+      session.turns.push(turn);
+      session.updated = turn.timestamp;
+      return turn;
+    } catch (error) {
+      lastError = error as Error;
+      log('WARN', `Model ${model} failed: ${lastError.message}`);
+    }
+  }
+  
+  throw new Error(`Follow-up failed with all available models (last error: ${lastError?.message || 'Unknown error'})`);
+}
+
+// Run the command line interface when executed directly.
+// Not awaited: cli.ts imports this module, so it must finish evaluating first.
+if (import.meta.main) {
+  import("./cli.ts").then(({ runCli }) => runCli(Deno.args));
 }
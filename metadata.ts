@@ -0,0 +1,152 @@
+/**
+ * Page metadata extraction for Ollama WebSearch
+ * Reads author, dates, site name, language and description from JSON-LD,
+ * OpenGraph and <meta> tags so the model can tell who wrote a source and when
+ */
+
+import type { CheerioAPI } from "cheerio";
+
+/**
+ * Descriptive fields of a web page. Fields the page does not declare are left out.
+ */
+export interface PageMetadata {
+  byline?: string;          // Author names
+  publishedTime?: string;   // As declared by the page, usually ISO 8601
+  modifiedTime?: string;
+  siteName?: string;
+  lang?: string;            // Language code such as "en" or "de-AT"
+  description?: string;     // Summary written by the publisher
+}
+
+/**
+ * A page as extracted from HTML: title, clean text and metadata
+ */
+export interface PageDocument extends PageMetadata {
+  title?: string;
+  text: string;
+  canonical?: string;       // <link rel="canonical"> as written in the page (may be relative)
+}
+
+/**
+ * Metadata Readability reports for an article
+ */
+export interface ReadabilityMetadata {
+  byline?: string | null;
+  siteName?: string | null;
+  lang?: string | null;
+  publishedTime?: string | null;
+  excerpt?: string | null;
+}
+
+// schema.org types describing the page's main content
+const CONTENT_TYPES = /^(\w*Article|BlogPosting|Report|WebPage|AboutPage|QAPage|FAQPage|Blog|Book|Recipe|HowTo|Review|Dataset)$/;
+
+type JsonLd = Record<string, unknown>;
+
+/**
+ * Extracts page metadata. Must run before Readability, which strips <script> elements.
+ * Sources in order of preference: JSON-LD, OpenGraph and article:* properties, other <meta> tags
+ * and the <html lang> attribute.
+ *
+ * @param $ - Loaded page
+ * @returns PageMetadata - The fields that were found
+ */
+export function extractMetadata($: CheerioAPI): PageMetadata {
+  const ld = findJsonLd($);
+  const meta = (...keys: string[]) => {
+    for (const name of keys) {
+      const value = $(`meta[property="${name}" i], meta[name="${name}" i], meta[itemprop="${name}" i]`).first().attr('content');
+      if (value?.trim()) return clean(value);
+    }
+    return undefined;
+  };
+
+  const metadata: PageMetadata = {
+    byline: names(ld?.author) ?? meta('author', 'article:author', 'citation_author', 'dc.creator', 'parsely-author'),
+    publishedTime: text(ld?.datePublished) ?? meta('article:published_time', 'datePublished', 'citation_publication_date', 'dc.date.issued', 'dc.date', 'date', 'pubdate', 'publish_date') ??
+      clean($('time[pubdate]').first().attr('datetime')),
+    modifiedTime: text(ld?.dateModified) ?? meta('article:modified_time', 'og:updated_time', 'dateModified', 'last-modified'),
+    siteName: names(ld?.publisher) ?? meta('og:site_name', 'application-name'),
+    lang: text(ld?.inLanguage) ?? clean($('html').attr('lang')) ?? meta('og:locale', 'content-language', 'dc.language')?.replace('_', '-') ??
+      clean($('meta[http-equiv="content-language" i]').attr('content')),
+    description: text(ld?.description) ?? meta('og:description', 'description', 'twitter:description')
+  };
+  return withoutEmpty(metadata);
+}
+
+/**
+ * Fills fields the page did not declare with what Readability found
+ *
+ * @param metadata - Metadata from extractMetadata()
+ * @param readability - Readability's parse result
+ * @returns PageMetadata - The combined fields
+ */
+export function withReadability(metadata: PageMetadata, readability: ReadabilityMetadata): PageMetadata {
+  return withoutEmpty({
+    byline: metadata.byline ?? clean(readability.byline),
+    publishedTime: metadata.publishedTime ?? clean(readability.publishedTime),
+    modifiedTime: metadata.modifiedTime,
+    siteName: metadata.siteName ?? clean(readability.siteName),
+    lang: metadata.lang ?? clean(readability.lang),
+    description: metadata.description ?? clean(readability.excerpt)
+  });
+}
+
+/**
+ * Leaves out fields that were not found
+ */
+function withoutEmpty(metadata: PageMetadata): PageMetadata {
+  for (const key of Object.keys(metadata) as Array<keyof PageMetadata>) {
+    if (!metadata[key]) delete metadata[key];
+  }
+  return metadata;
+}
+
+/**
+ * Finds the JSON-LD object describing the page's main content, looking inside arrays and @graph
+ */
+function findJsonLd($: CheerioAPI): JsonLd | undefined {
+  const candidates: JsonLd[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === 'object') {
+      candidates.push(value as JsonLd);
+      collect((value as JsonLd)['@graph']);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collect(JSON.parse($(element).text()));
+    } catch {
+      // Malformed JSON-LD is common and simply ignored
+    }
+  });
+
+  const types = (item: JsonLd) => [item['@type']].flat().map(String);
+  return candidates.find(item => types(item).some(type => type !== 'WebPage' && CONTENT_TYPES.test(type))) ??
+    candidates.find(item => types(item).some(type => CONTENT_TYPES.test(type)));
+}
+
+/**
+ * Names from a JSON-LD person or organization, a list of them, or plain strings
+ */
+function names(value: unknown): string | undefined {
+  const list = [value].flat()
+    .map(item => item && typeof item === 'object' ? (item as JsonLd).name : item)
+    .map(text)
+    .filter(Boolean);
+  return list.length ? list.join(', ') : undefined;
+}
+
+/**
+ * A non-empty string value, trimmed
+ */
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? clean(value) : undefined;
+}
+
+function clean(value: string | null | undefined): string | undefined {
+  return value?.replace(/\s+/g, ' ').trim() || undefined;
+}
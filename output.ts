@@ -3,18 +3,38 @@
  * Supports multiple output formats and structured data export
  */
 
+import { type Citation, replaceCitations } from "./citations.ts";
+import type { PageMetadata } from "./metadata.ts";
+import type { SummaryPlan } from "./summarize.ts";
+
 export interface SearchResult {
   query: string;
   timestamp: string;
   urls: string[];
+  subQueries?: string[];     // Queries searched when the query was expanded
   sources: Array<{
     url: string;
     title?: string;
+    snippet?: string;        // Search engine summary
+    engine?: string;
+    score?: number;
+    publishedDate?: string;
+    metadata?: PageMetadata;  // Author, dates, site name, language and description declared by the page
+    alternateUrls?: string[]; // Other URLs with the same content
+    queries?: string[];      // Sub-queries that found the source
+    fusionScore?: number;
+    snippetOnly?: boolean;   // Page was unavailable; content is the search snippet
+    charset?: string;        // Character encoding of the page
+    truncated?: boolean;     // Page was cut off at the size cap
+    passages?: Array<{ text: string; score: number }>; // Passages sent to the model, with their similarity to the query
     content: string;
     fetchTime: number;
     contentLength: number;
   }>;
-  aiResponse: string;
+  aiResponse: string;          // Cites sources as [n], the n-th entry of `sources`
+  citations?: Citation[];      // Sources cited in the answer
+  invalidCitations?: number[]; // Numbers the model cited without a matching source, removed from the answer
+  summary?: SummaryPlan;     // How the answer was produced from the sources
   metrics: {
     totalTime: number;
     searchTime: number;
@@ -24,11 +44,115 @@ export interface SearchResult {
     urlsProcessed: number;
     cacheHits: number;
     tokens: number;
+    snippetFallbacks?: number;
+    searchPages?: number;
+    candidatesTried?: number;
+    rejected?: Array<{ url: string; reason: string; detail?: string }>;
+    retries?: { search: number; fetch: number; ai: number };
+    cache?: { search: number; page: number; answer: number; embedding: number; revalidated: number };
   };
   model: string;
   config: any;
 }
 
+/**
+ * Escape text for safe interpolation into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+type Source = SearchResult['sources'][number];
+
+/**
+ * Search metadata of a source as "label: value" pairs, omitting what the provider did not report
+ */
+function sourceDetails(source: Source): Array<[string, string]> {
+  const details: Array<[string, string]> = [];
+  const metadata = source.metadata ?? {};
+  if (metadata.siteName) details.push(['Site', metadata.siteName]);
+  if (metadata.byline) details.push(['Author', metadata.byline]);
+  if (source.engine) details.push(['Engine', source.engine]);
+  if (source.score !== undefined) details.push(['Score', source.score.toFixed(2)]);
+  if (metadata.publishedTime ?? source.publishedDate) details.push(['Published', metadata.publishedTime ?? source.publishedDate!]);
+  if (metadata.modifiedTime) details.push(['Updated', metadata.modifiedTime]);
+  if (metadata.lang) details.push(['Language', metadata.lang]);
+  if (metadata.description) details.push(['Description', metadata.description]);
+  if (source.alternateUrls?.length) details.push(['Also at', source.alternateUrls.join(', ')]);
+  if (source.queries?.length) details.push(['Found by', source.queries.map(query => `"${query}"`).join(', ')]);
+  if (source.charset && source.charset !== 'utf-8') details.push(['Charset', source.charset]);
+  if (source.truncated) details.push(['Truncated', 'page longer than the size cap, beginning only']);
+  if (source.passages?.length) {
+    details.push(['Passages', `${source.passages.length} selected, best score ${Math.max(...source.passages.map(passage => passage.score)).toFixed(2)}`]);
+  }
+  if (source.snippet && !source.snippetOnly) details.push(['Snippet', source.snippet]);
+  return details;
+}
+
+/**
+ * Retries by kind, e.g. "search 1, fetch 2", or an empty string when nothing was retried
+ */
+export function retrySummary(metrics: Pick<SearchResult['metrics'], 'retries'>): string {
+  const retries = metrics.retries;
+  if (!retries) return '';
+  return (['search', 'fetch', 'ai'] as const)
+    .filter(kind => retries[kind] > 0)
+    .map(kind => `${kind} ${retries[kind]}`)
+    .join(', ');
+}
+
+/**
+ * Cache hits by namespace, e.g. "search 1, pages 3 (1 revalidated), answer 1, embeddings 3", or an empty string without hits
+ */
+export function cacheSummary(metrics: SearchResult['metrics']): string {
+  const cache = metrics.cache;
+  if (!cache) return '';
+  return [
+    cache.search > 0 && `search ${cache.search}`,
+    cache.page > 0 && `pages ${cache.page}${cache.revalidated ? ` (${cache.revalidated} revalidated)` : ''}`,
+    cache.answer > 0 && `answer ${cache.answer}`,
+    cache.embedding > 0 && `embeddings ${cache.embedding}`
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * The answer with its citation markers replaced by `link`, for formats that can link to the sources
+ */
+function linkCitations(result: SearchResult, text: string, link: (number: number) => string): string {
+  if (!result.citations?.length) return text;
+  return replaceCitations(text, numbers =>
+    numbers.map(number => number <= result.sources.length ? link(number) : `[${number}]`).join(''));
+}
+
+/**
+ * The answer in Markdown, citations as footnotes that link to the sources
+ */
+function markdownAnswer(result: SearchResult): string {
+  const answer = linkCitations(result, result.aiResponse, number => `[^${number}]`);
+  if (!result.citations?.length) return answer;
+  return `${answer}
+
+${result.citations.map(citation => `[^${citation.number}]: [${(citation.title || citation.url).replace(/[[\]]/g, '\\$&')}](${citation.url})`).join('\n')}`;
+}
+
+/**
+ * The summarization strategy of a result, e.g. "map-reduce: 7 parts, 2 rounds (~48200 tokens for a 16384-token window)",
+ * or an empty string when no answer was generated
+ */
+export function strategySummary(result: SearchResult): string {
+  const summary = result.summary;
+  if (!summary) return '';
+  const budget = `~${summary.estimatedTokens} tokens for a ${summary.contextWindow}-token window`;
+  return summary.strategy === 'single'
+    ? `single prompt (${budget})`
+    : `map-reduce: ${summary.parts} parts, ${summary.rounds} round${summary.rounds === 1 ? '' : 's'} (${budget})`;
+}
+
 export class OutputFormatter {
   
   /**
@@ -47,17 +171,18 @@ export class OutputFormatter {
 **Timestamp:** ${result.timestamp}
 **Model:** ${result.model}
 **Processing Time:** ${(result.metrics.totalTime / 1000).toFixed(2)}s
-
+${result.subQueries?.length ? `**Sub-queries:** ${result.subQueries.map(query => `"${query}"`).join(', ')}
+` : ''}
 ## 🤖 AI Analysis
 
-${result.aiResponse}
+${markdownAnswer(result)}
 
 ## 📄 Sources
 
 ${result.sources.map((source, index) => `
-### ${index + 1}. ${source.title || 'Untitled'}
+### ${index + 1}. ${source.title || 'Untitled'}${source.snippetOnly ? ' (search snippet only)' : ''}
 - **URL:** ${source.url}
-- **Content Length:** ${source.contentLength} characters
+${sourceDetails(source).map(([label, value]) => `- **${label}:** ${value}\n`).join('')}- **Content Length:** ${source.contentLength} characters
 - **Fetch Time:** ${source.fetchTime}ms
 
 \`\`\`
@@ -75,9 +200,17 @@ ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
 | AI Processing Time | ${(result.metrics.aiTime / 1000).toFixed(2)}s |
 | URLs Found | ${result.metrics.urlsFound} |
 | URLs Processed | ${result.metrics.urlsProcessed} |
-| Cache Hits | ${result.metrics.cacheHits} |
+| Cache Hits | ${result.metrics.cacheHits}${cacheSummary(result.metrics) ? ` (${cacheSummary(result.metrics)})` : ''} |
 | Tokens Generated | ${result.metrics.tokens} |
+${strategySummary(result) ? `| Summarization | ${strategySummary(result)} |
+` : ''}${result.metrics.candidatesTried !== undefined ? `| Search Pages | ${result.metrics.searchPages ?? 0} |
+| Candidates Tried | ${result.metrics.candidatesTried} |
+` : ''}${retrySummary(result.metrics) ? `| Retries | ${retrySummary(result.metrics)} |
+` : ''}${result.metrics.rejected?.length ? `
+### Rejected Candidates
 
+${result.metrics.rejected.map(item => `- ${item.url} — ${item.reason}${item.detail ? ` (${item.detail})` : ''}`).join('\n')}
+` : ''}
 ---
 *Generated by Ollama WebSearch v2.0*
 `;
@@ -93,7 +226,7 @@ ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Search Results: ${result.query}</title>
+    <title>Search Results: ${escapeHtml(result.query)}</title>
     <style>
         body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; line-height: 1.6; max-width: 1200px; margin: 0 auto; padding: 20px; }
         .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 10px; margin-bottom: 30px; }
@@ -102,6 +235,7 @@ ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
         .ai-response { background: #f8f9ff; padding: 25px; border-radius: 10px; border-left: 4px solid #667eea; margin-bottom: 30px; }
         .sources { margin-bottom: 30px; }
         .source { background: white; border: 1px solid #e1e5e9; border-radius: 8px; padding: 20px; margin-bottom: 15px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+        .citation { color: #667eea; text-decoration: none; font-size: 0.8em; vertical-align: super; }
         .source-url { color: #0066cc; text-decoration: none; word-break: break-all; }
         .source-meta { color: #666; font-size: 0.9em; margin: 10px 0; }
         .content-preview { background: #f5f5f5; padding: 15px; border-radius: 5px; font-family: monospace; font-size: 0.9em; }
@@ -114,30 +248,33 @@ ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
 </head>
 <body>
     <div class="header">
-        <div class="query">🔍 "${result.query}"</div>
+        <div class="query">🔍 "${escapeHtml(result.query)}"</div>
         <div class="meta">
             📅 ${result.timestamp} | 
-            🤖 ${result.model} | 
+            🤖 ${escapeHtml(result.model)} | 
             ⏱️ ${(result.metrics.totalTime / 1000).toFixed(2)}s
-        </div>
+        </div>${result.subQueries?.length ? `
+        <div class="meta">🔀 ${result.subQueries.map(query => `"${escapeHtml(query)}"`).join(', ')}</div>` : ''}
     </div>
 
     <div class="ai-response">
         <h2>🤖 AI Analysis & Summary</h2>
-        <div>${result.aiResponse.replace(/\n/g, '<br>')}</div>
+        <div>${linkCitations(result, escapeHtml(result.aiResponse), number =>
+          `<a href="#source-${number}" class="citation" title="${escapeHtml(result.sources[number - 1].title || result.sources[number - 1].url)}">[${number}]</a>`
+        ).replace(/\n/g, '<br>')}</div>
     </div>
 
     <div class="sources">
         <h2>📄 Sources (${result.sources.length})</h2>
         ${result.sources.map((source, index) => `
-            <div class="source">
-                <h3>${index + 1}. ${source.title || 'Untitled'}</h3>
-                <a href="${source.url}" class="source-url" target="_blank">${source.url}</a>
+            <div class="source" id="source-${index + 1}">
+                <h3>${index + 1}. ${escapeHtml(source.title || 'Untitled')}${source.snippetOnly ? ' <small>(search snippet only)</small>' : ''}</h3>
+                <a href="${escapeHtml(source.url)}" class="source-url" target="_blank">${escapeHtml(source.url)}</a>
                 <div class="source-meta">
-                    📊 ${source.contentLength} characters | ⏱️ ${source.fetchTime}ms fetch time
+                    ${sourceDetails(source).map(([label, value]) => `<strong>${label}:</strong> ${escapeHtml(value)} | `).join('')}📊 ${source.contentLength} characters | ⏱️ ${source.fetchTime}ms fetch time
                 </div>
                 <div class="content-preview">
-                    ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
+                    ${escapeHtml(source.content.substring(0, 500))}${source.content.length > 500 ? '...' : ''}
                 </div>
             </div>
         `).join('')}
@@ -153,9 +290,17 @@ ${source.content.substring(0, 500)}${source.content.length > 500 ? '...' : ''}
             <tr><td>AI Processing Time</td><td>${(result.metrics.aiTime / 1000).toFixed(2)}s</td></tr>
             <tr><td>URLs Found</td><td>${result.metrics.urlsFound}</td></tr>
             <tr><td>URLs Processed</td><td>${result.metrics.urlsProcessed}</td></tr>
-            <tr><td>Cache Hits</td><td>${result.metrics.cacheHits}</td></tr>
+            <tr><td>Cache Hits</td><td>${result.metrics.cacheHits}${cacheSummary(result.metrics) ? ` (${cacheSummary(result.metrics)})` : ''}</td></tr>
             <tr><td>Tokens Generated</td><td>${result.metrics.tokens}</td></tr>
+            ${strategySummary(result) ? `<tr><td>Summarization</td><td>${strategySummary(result)}</td></tr>` : ''}
+            ${result.metrics.candidatesTried !== undefined ? `<tr><td>Search Pages</td><td>${result.metrics.searchPages ?? 0}</td></tr>
+            <tr><td>Candidates Tried</td><td>${result.metrics.candidatesTried}</td></tr>` : ''}
+            ${retrySummary(result.metrics) ? `<tr><td>Retries</td><td>${retrySummary(result.metrics)}</td></tr>` : ''}
         </table>
+        ${result.metrics.rejected?.length ? `<h3>Rejected Candidates</h3>
+        <ul>
+            ${result.metrics.rejected.map(item => `<li>${escapeHtml(item.url)} — ${item.reason}${item.detail ? ` (${escapeHtml(item.detail)})` : ''}</li>`).join('')}
+        </ul>` : ''}
     </div>
 
     <div class="footer">
@@ -174,17 +319,21 @@ ${'='.repeat(60)}
 Timestamp: ${result.timestamp}
 Model: ${result.model}
 Processing Time: ${(result.metrics.totalTime / 1000).toFixed(2)}s
-
+${result.subQueries?.length ? `Sub-queries: ${result.subQueries.map(query => `"${query}"`).join(', ')}
+` : ''}
 AI ANALYSIS & SUMMARY
 ${'='.repeat(60)}
 ${result.aiResponse}
-
+${result.citations?.length ? `
+References:
+${result.citations.map(citation => `[${citation.number}] ${citation.title ? `${citation.title} - ` : ''}${citation.url}`).join('\n')}
+` : ''}
 SOURCES (${result.sources.length})
 ${'='.repeat(60)}
 ${result.sources.map((source, index) => `
-${index + 1}. ${source.title || 'Untitled'}
+${index + 1}. ${source.title || 'Untitled'}${source.snippetOnly ? ' (search snippet only)' : ''}
    URL: ${source.url}
-   Content: ${source.contentLength} chars | Fetch: ${source.fetchTime}ms
+${sourceDetails(source).map(([label, value]) => `   ${label}: ${value}\n`).join('')}   Content: ${source.contentLength} chars | Fetch: ${source.fetchTime}ms
    
    ${source.content.substring(0, 300)}${source.content.length > 300 ? '...' : ''}
    
@@ -199,37 +348,43 @@ Fetch Time:          ${(result.metrics.fetchTime / 1000).toFixed(2)}s
 AI Processing Time:  ${(result.metrics.aiTime / 1000).toFixed(2)}s
 URLs Found:          ${result.metrics.urlsFound}
 URLs Processed:      ${result.metrics.urlsProcessed}
-Cache Hits:          ${result.metrics.cacheHits}
+Cache Hits:          ${result.metrics.cacheHits}${cacheSummary(result.metrics) ? ` (${cacheSummary(result.metrics)})` : ''}
 Tokens Generated:    ${result.metrics.tokens}
-
+${strategySummary(result) ? `Summarization:       ${strategySummary(result)}
+` : ''}${result.metrics.candidatesTried !== undefined ? `Search Pages:        ${result.metrics.searchPages ?? 0}
+Candidates Tried:    ${result.metrics.candidatesTried}
+` : ''}${retrySummary(result.metrics) ? `Retries:             ${retrySummary(result.metrics)}
+` : ''}${result.metrics.rejected?.length ? `
+Rejected Candidates:
+${result.metrics.rejected.map(item => `  - ${item.url}: ${item.reason}${item.detail ? ` (${item.detail})` : ''}`).join('\n')}
+` : ''}
 Generated by Ollama WebSearch v2.0`;
   }
 
   /**
-   * Save results to file with appropriate format
+   * Render results in the named format (json, markdown/md, html, text/txt; anything else falls back to text)
    */
-  static async saveToFile(result: SearchResult, format: string, filepath: string): Promise<void> {
-    let content: string;
-    
+  static format(result: SearchResult, format: string): string {
     switch (format.toLowerCase()) {
       case 'json':
-        content = this.toJSON(result);
-        break;
+        return this.toJSON(result);
       case 'markdown':
       case 'md':
-        content = this.toMarkdown(result);
-        break;
+        return this.toMarkdown(result);
       case 'html':
-        content = this.toHTML(result);
-        break;
+        return this.toHTML(result);
       case 'txt':
       case 'text':
       default:
-        content = this.toPlainText(result);
-        break;
+        return this.toPlainText(result);
     }
-    
-    await Deno.writeTextFile(filepath, content);
+  }
+
+  /**
+   * Save results to file with appropriate format
+   */
+  static async saveToFile(result: SearchResult, format: string, filepath: string): Promise<void> {
+    await Deno.writeTextFile(filepath, this.format(result, format));
   }
 }
 
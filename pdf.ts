@@ -0,0 +1,78 @@
+/**
+ * PDF text extraction for Ollama WebSearch
+ * Lets papers, standards and reports found by the search be used as sources
+ */
+
+import { getDocumentProxy } from "unpdf";  // Serverless build of Mozilla pdf.js
+
+/**
+ * Settings from the `pdf` block of config.json
+ */
+export interface PdfSettings {
+  maxPages: number;     // Pages to extract text from, starting at the first
+  maxBytes: number;     // Larger documents are not downloaded or parsed
+}
+
+/**
+ * Text extracted from a PDF document
+ */
+export interface PdfText {
+  title?: string;       // Document title from the PDF metadata
+  text: string;         // Page texts separated by blank lines
+  pages: number;        // Pages extracted
+  totalPages: number;   // Pages in the document
+}
+
+/**
+ * Detects PDF content from the content type or, for unlabeled responses, the URL
+ */
+export function isPdf(contentType: string, url: string): boolean {
+  if (contentType.includes('application/pdf')) return true;
+  const unlabeled = !contentType || contentType.includes('application/octet-stream');
+  try {
+    return unlabeled && new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extracts the text of the first pages of a PDF document
+ *
+ * @param data - Raw PDF bytes
+ * @param settings - Page limit (the size cap is applied when downloading)
+ * @returns Promise<PdfText> - Title, text and page counts
+ */
+export async function extractPdfText(data: Uint8Array, settings: Pick<PdfSettings, 'maxPages'>): Promise<PdfText> {
+  const pdf = await getDocumentProxy(data);
+
+  try {
+    const totalPages = pdf.numPages;
+    const pages = Math.min(totalPages, Math.max(1, settings.maxPages));
+    const texts: string[] = [];
+
+    for (let number = 1; number <= pages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      if (text) texts.push(text);
+    }
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+    const title = (info as { Title?: unknown } | undefined)?.Title;
+
+    return {
+      title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+      text: texts.join('\n\n'),
+      pages,
+      totalPages
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Bounded fetch pool for Ollama WebSearch
+ * Limits concurrent page fetches, enforces an overall deadline and cancels stragglers
+ * once enough sources have arrived
+ */
+
+/**
+ * Settings from the `fetch` block of config.json
+ */
+export interface FetchSettings {
+  concurrency: number;    // Pages fetched at the same time
+  deadline: number;       // Overall time limit for fetching pages (ms, 0 for none); running fetches are cancelled
+  minSources: number;     // Answer as soon as this many pages are extracted, cancelling slower fetches (0: wait for all)
+  maxBytes: number;       // Largest page body read (after decompression); longer HTML pages are truncated
+}
+
+/**
+ * Options for runPool()
+ */
+export interface PoolOptions<T, R> {
+  concurrency: number;
+  signal?: AbortSignal;                           // Aborting cancels running workers and starts no more
+  canStart?: (running: number) => boolean;        // Whether another item may start now
+  onResult?: (result: R, item: T) => boolean | void; // Receives each result; returning true cancels the running workers
+}
+
+/**
+ * Processes items in order with at most `concurrency` workers running. Each worker gets a signal
+ * that aborts when the pool is cancelled, and is expected to return promptly once it does.
+ * Results of cancelled workers are still passed to onResult.
+ *
+ * @param items - Work items, highest priority first
+ * @param worker - Processes one item
+ * @param options - Concurrency limit, cancellation signal and callbacks
+ * @returns Promise<number> - Number of items started; the rest were never processed
+ */
+export async function runPool<T, R>(
+  items: T[],
+  worker: (item: T, signal: AbortSignal, index: number) => Promise<R>,
+  options: PoolOptions<T, R>
+): Promise<number> {
+  const stop = new AbortController();
+  const signal = options.signal ? AbortSignal.any([stop.signal, options.signal]) : stop.signal;
+  const concurrency = Math.max(1, options.concurrency);
+  const running = new Set<Promise<void>>();
+  let failure: unknown;
+  let next = 0;
+
+  while (true) {
+    while (!signal.aborted && next < items.length && running.size < concurrency && (options.canStart?.(running.size) ?? true)) {
+      const index = next++;
+      const item = items[index];
+      const task: Promise<void> = worker(item, signal, index)
+        .then(result => {
+          if (options.onResult?.(result, item) && !stop.signal.aborted) {
+            stop.abort(new DOMException('Enough results collected', 'AbortError'));
+          }
+        })
+        .catch(error => {
+          failure ??= error;
+          stop.abort(error);
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+    }
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  if (failure) throw failure;
+  return next;
+}
+
+/**
+ * A signal that aborts after the given time, for an overall deadline
+ *
+ * @param ms - Time limit in milliseconds; 0 or less never aborts
+ * @returns The signal, and clear() to stop the timer once the work is done
+ */
+export function startDeadline(ms: number): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = ms > 0
+    ? setTimeout(() => controller.abort(new DOMException(`Deadline of ${ms}ms reached`, 'TimeoutError')), ms)
+    : undefined;
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Waits for the given time, rejecting with the signal's reason if it aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settles with a promise, or rejects with the signal's reason as soon as it aborts.
+ * The promise itself keeps running, e.g. a shared robots.txt download.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
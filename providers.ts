@@ -0,0 +1,330 @@
+/**
+ * Search providers for Ollama WebSearch
+ * Abstracts the search backend so SearXNG can be swapped for other engines or offline data
+ */
+
+import { resolve, toFileUrl } from "https://deno.land/std@0.208.0/path/mod.ts";
+import { DEFAULT_USER_AGENT, type NetworkingSettings } from "./crawler.ts";
+import { HttpStatusError } from "./retry.ts";
+
+/**
+ * A single search result as returned by a provider
+ */
+export interface SearchHit {
+  url: string;
+  title?: string;
+  snippet?: string;          // Result summary from the search engine
+  engine?: string;           // Engine that produced the hit (SearXNG reports the primary one)
+  score?: number;            // Provider relevance score, higher is better
+  publishedDate?: string;    // Publication date as reported by the provider
+  alternateUrls?: string[];  // Tracking/AMP variants and duplicate URLs merged into this hit
+  queries?: string[];        // Sub-queries that returned the hit, when several were searched and fused
+  fusionScore?: number;      // Reciprocal-rank fusion score across those sub-queries
+}
+
+export interface ProviderSearchOptions {
+  signal?: AbortSignal;
+  page?: number;                      // 1-based result page (default: 1)
+}
+
+/**
+ * Query settings from the `search` block of config.json.
+ * Categories, engines, language, safe search and time range are passed to SearXNG;
+ * the exclusion lists filter results from every provider.
+ */
+export interface SearchSettings {
+  categories: string[];
+  timeRange: string;                  // "", "day", "week", "month" or "year"
+  safeSearch: boolean | number;       // true/false or a SearXNG level 0-2
+  language: string;                   // e.g. "en", "de", "all"
+  engines: string[];                  // Empty list uses the instance defaults
+  excludeDomains: string[];           // Hosts excluded together with their subdomains
+  excludeFileTypes: string[];         // URL path extensions to skip, e.g. ".pdf"
+  maxPages: number;                   // Result pages to request while collecting sources
+  timeBudget: number;                 // Milliseconds to spend collecting before settling for fewer sources
+}
+
+export const TIME_RANGES = ["", "day", "week", "month", "year"];
+
+/**
+ * A search backend. Implementations return hits in ranked order and throw on failure.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options?: ProviderSearchOptions): Promise<SearchHit[]>;
+}
+
+/**
+ * Generic JSON endpoint settings. Paths are dot-separated (e.g. "data.items", "links.self").
+ */
+export interface JsonProviderConfig {
+  url: string;                      // Endpoint; "{query}" is replaced, otherwise queryParam is appended
+  queryParam?: string;              // Query string parameter for the search terms (default: "q")
+  pageParam?: string;               // Query string parameter for the 1-based page; without it only one page is requested
+  resultsPath?: string;             // Path to the results array in the response (default: "results")
+  fields?: {
+    url?: string;                   // Path to the URL within each result (default: "url")
+    title?: string;                 // Path to the title (default: "title")
+    snippet?: string;               // Path to the snippet (default: "content")
+    publishedDate?: string;         // Path to the publication date (default: "publishedDate")
+  };
+  headers?: Record<string, string>;
+}
+
+/**
+ * Local provider settings. `path` is either a JSON file of canned hits
+ * (an array or `{ "results": [...] }`) or a directory/HTML file to search by keyword.
+ */
+export interface LocalProviderConfig {
+  path: string;
+}
+
+export interface ProvidersConfig {
+  json?: JsonProviderConfig;
+  local?: LocalProviderConfig;
+}
+
+/**
+ * Configuration fields used to select and build a provider
+ */
+export interface ProviderSettings {
+  provider: string;
+  searchUrl: string;
+  providers: ProvidersConfig;
+  search?: Partial<SearchSettings>;
+  networking?: Partial<NetworkingSettings>; // userAgent is sent with search requests
+}
+
+export const PROVIDER_NAMES = ["searxng", "json", "local"];
+
+/**
+ * Read a dot-separated path from a parsed JSON value
+ */
+function getPath(value: unknown, path: string): unknown {
+  if (!path) return value;
+  return path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object') ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * SearXNG JSON API provider
+ */
+export class SearxngProvider implements SearchProvider {
+  readonly name = "searxng";
+
+  constructor(private searchUrl: string, private settings: Partial<SearchSettings> = {}, private userAgent = DEFAULT_USER_AGENT) {}
+
+  /**
+   * Build the SearXNG request URL, leaving out settings that are unset so the instance defaults apply
+   */
+  buildUrl(query: string, page = 1): string {
+    const url = new URL(this.searchUrl);
+    const { categories, engines, language, safeSearch, timeRange } = this.settings;
+
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('categories', categories?.length ? categories.join(',') : 'general');
+    if (engines?.length) url.searchParams.set('engines', engines.join(','));
+    if (language) url.searchParams.set('language', language);
+    if (safeSearch !== undefined) {
+      url.searchParams.set('safesearch', String(typeof safeSearch === 'number' ? safeSearch : safeSearch ? 1 : 0));
+    }
+    if (timeRange) url.searchParams.set('time_range', timeRange);
+    if (page > 1) url.searchParams.set('pageno', String(page));
+
+    return url.toString();
+  }
+
+  async search(query: string, options: ProviderSearchOptions = {}): Promise<SearchHit[]> {
+    const response = await fetch(this.buildUrl(query, options.page), {
+      signal: options.signal,
+      headers: {
+        'User-Agent': this.userAgent,
+        'Accept': 'application/json',
+      }
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new HttpStatusError(`Search API returned ${response.status}: ${response.statusText}`, response);
+    }
+
+    const json: {
+      results?: Array<{
+        url: string;
+        title?: string;
+        content?: string;
+        engine?: string;
+        score?: number;
+        publishedDate?: string | null;
+      }>;
+    } = await response.json();
+
+    return (json.results ?? []).map(result => ({
+      url: result.url,
+      title: optionalString(result.title),
+      snippet: optionalString(result.content),
+      engine: optionalString(result.engine),
+      score: typeof result.score === 'number' ? result.score : undefined,
+      publishedDate: optionalString(result.publishedDate)
+    }));
+  }
+}
+
+/**
+ * Generic JSON-over-HTTP provider with configurable field mapping, for internal search appliances
+ */
+export class JsonProvider implements SearchProvider {
+  readonly name = "json";
+
+  constructor(private config: JsonProviderConfig, private userAgent = DEFAULT_USER_AGENT) {
+    if (!config?.url) {
+      throw new Error('The json search provider requires providers.json.url');
+    }
+  }
+
+  async search(query: string, options: ProviderSearchOptions = {}): Promise<SearchHit[]> {
+    const page = options.page ?? 1;
+    if (page > 1 && !this.config.pageParam) return [];
+
+    const response = await fetch(this.buildUrl(query, page), {
+      signal: options.signal,
+      headers: {
+        'User-Agent': this.userAgent,
+        'Accept': 'application/json',
+        ...this.config.headers
+      }
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new HttpStatusError(`Search API returned ${response.status}: ${response.statusText}`, response);
+    }
+
+    const results = getPath(await response.json(), this.config.resultsPath ?? 'results');
+    if (!Array.isArray(results)) {
+      throw new Error(`Search API response has no results array at "${this.config.resultsPath ?? 'results'}"`);
+    }
+
+    const fields = this.config.fields ?? {};
+    return results
+      .map(result => ({
+        url: optionalString(getPath(result, fields.url ?? 'url')) ?? '',
+        title: optionalString(getPath(result, fields.title ?? 'title')),
+        snippet: optionalString(getPath(result, fields.snippet ?? 'content')),
+        engine: this.name,
+        publishedDate: optionalString(getPath(result, fields.publishedDate ?? 'publishedDate'))
+      }))
+      .filter(hit => hit.url);
+  }
+
+  private buildUrl(query: string, page: number): string {
+    const url = new URL(this.config.url.replaceAll('{query}', encodeURIComponent(query)));
+    if (!this.config.url.includes('{query}')) {
+      url.searchParams.set(this.config.queryParam ?? 'q', query);
+    }
+    if (this.config.pageParam) {
+      url.searchParams.set(this.config.pageParam, String(page));
+    }
+    return url.toString();
+  }
+}
+
+/**
+ * Offline provider over local files, for air-gapped use and tests.
+ * JSON files are returned as canned results; HTML files are ranked by query term frequency
+ * and returned as file:// URLs. Everything is returned on the first page.
+ */
+export class LocalProvider implements SearchProvider {
+  readonly name = "local";
+
+  constructor(private config: LocalProviderConfig) {
+    if (!config?.path) {
+      throw new Error('The local search provider requires providers.local.path');
+    }
+  }
+
+  async search(query: string, options: ProviderSearchOptions = {}): Promise<SearchHit[]> {
+    if ((options.page ?? 1) > 1) return [];
+
+    const path = this.config.path;
+    const info = await Deno.stat(path);
+
+    if (info.isFile && path.toLowerCase().endsWith('.json')) {
+      const json = JSON.parse(await Deno.readTextFile(path));
+      const results = Array.isArray(json) ? json : json.results;
+      if (!Array.isArray(results)) {
+        throw new Error(`${path} must contain an array of results or { "results": [...] }`);
+      }
+      return results
+        .map(result => ({
+          url: optionalString(result.url) ?? '',
+          title: optionalString(result.title),
+          snippet: optionalString(result.snippet ?? result.content),
+          engine: optionalString(result.engine),
+          score: typeof result.score === 'number' ? result.score : undefined,
+          publishedDate: optionalString(result.publishedDate)
+        }))
+        .filter(hit => hit.url);
+    }
+
+    const files = info.isDirectory ? await this.listHtmlFiles(path) : [path];
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scored: SearchHit[] = [];
+
+    for (const file of files) {
+      const html = await Deno.readTextFile(file);
+      const text = html.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ');
+      const haystack = text.toLowerCase();
+      const score = terms.reduce((sum, term) => sum + haystack.split(term).length - 1, 0);
+      if (score === 0) continue;
+
+      const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+      scored.push({
+        // Paths may contain "#", "?" or "%", which a URL would read as syntax
+        url: toFileUrl(resolve(file)).href,
+        title: optionalString(title),
+        snippet: text.trim().substring(0, 200),
+        engine: this.name,
+        score
+      });
+    }
+
+    return scored.sort((a, b) => b.score! - a.score!);
+  }
+
+  private async listHtmlFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    for await (const entry of Deno.readDir(dir)) {
+      const path = `${dir.replace(/\/$/, '')}/${entry.name}`;
+      if (entry.isDirectory) {
+        files.push(...await this.listHtmlFiles(path));
+      } else if (/\.html?$/i.test(entry.name)) {
+        files.push(path);
+      }
+    }
+    return files.sort();
+  }
+}
+
+/**
+ * Create the provider selected by the configuration
+ */
+export function createSearchProvider(settings: ProviderSettings): SearchProvider {
+  switch (settings.provider) {
+    case 'searxng':
+      return new SearxngProvider(settings.searchUrl, settings.search, settings.networking?.userAgent || undefined);
+    case 'json':
+      return new JsonProvider(settings.providers.json!, settings.networking?.userAgent || undefined);
+    case 'local':
+      return new LocalProvider(settings.providers.local!);
+    default:
+      throw new Error(`Unknown search provider "${settings.provider}" (expected one of: ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Redis cache backend for Ollama WebSearch
+ * A minimal RESP client over Deno.connect and a cache that several users and
+ * containers can share, with key TTLs and least-recently-used eviction
+ */
+
+import { type Cache, type CacheEntryInfo, type CacheRecord, type CacheStats, entryInfo } from "./cache.ts";
+
+/**
+ * A reply from Redis: simple and bulk strings, integers, arrays, or null for nil replies
+ */
+export type RedisReply = string | number | null | RedisReply[];
+
+/**
+ * Anything that runs Redis commands: the RESP client, or an in-process stand-in in tests
+ */
+export interface RedisConnection {
+  command(...args: Array<string | number>): Promise<RedisReply>;
+  close(): void;
+}
+
+/**
+ * An error reply from Redis, such as "WRONGTYPE ..."
+ */
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encodes a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Uint8Array {
+  const parts = args.map(arg => encoder.encode(String(arg)));
+  const chunks = [encoder.encode(`*${parts.length}\r\n`)];
+  for (const part of parts) {
+    chunks.push(encoder.encode(`$${part.length}\r\n`), part, encoder.encode('\r\n'));
+  }
+  const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * Parses one RESP reply from a buffer
+ *
+ * @param data - Bytes received so far
+ * @param offset - Where the reply starts
+ * @returns The reply and the offset after it, or null when the reply is incomplete.
+ *          Error replies are returned as RedisError values; an array with an error element
+ *          is returned as that error, ending after the whole array.
+ * @throws Error if the data is not RESP, after which the connection cannot be used
+ */
+export function parseReply(data: Uint8Array, offset = 0): { value: RedisReply | RedisError; end: number } | null {
+  const lineEnd = data.indexOf(0x0a, offset);
+  if (lineEnd < 0) return null;
+  const type = String.fromCharCode(data[offset]);
+  const line = decoder.decode(data.subarray(offset + 1, lineEnd - 1));
+  const next = lineEnd + 1;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RedisError(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, end: next };
+      if (data.length < next + length + 2) return null;
+      return { value: decoder.decode(data.subarray(next, next + length)), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, end: next };
+      const items: RedisReply[] = [];
+      let error: RedisError | undefined;
+      let end = next;
+      // Read every element, so nothing of the array is left in the buffer after an error
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(data, end);
+        if (!item) return null;
+        if (item.value instanceof RedisError) error ??= item.value;
+        else items.push(item.value);
+        end = item.end;
+      }
+      return { value: error ?? items, end };
+    }
+    default:
+      throw new Error(`Unexpected reply type "${type}"`);
+  }
+}
+
+/**
+ * Redis client for redis:// and rediss:// URLs. Connects on the first command and
+ * reconnects after a failure; commands are sent one at a time.
+ */
+export class RedisClient implements RedisConnection {
+  private url: URL;
+  private conn?: Deno.Conn;
+  private buffer = new Uint8Array(0);
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param url - e.g. "redis://:password@localhost:6379/0"
+   * @param timeout - Milliseconds to wait for the connection and for each reply
+   */
+  constructor(url: string, private timeout = 2000) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL ${url} (expected redis:// or rediss://)`);
+    }
+  }
+
+  command(...args: Array<string | number>): Promise<RedisReply> {
+    const result = this.queue.then(() => this.withTimeout(this.roundTrip(args)));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  close(): void {
+    try {
+      this.conn?.close();
+    } catch {
+      // Already closed
+    }
+    this.conn = undefined;
+    this.buffer = new Uint8Array(0);
+  }
+
+  private async roundTrip(args: Array<string | number>): Promise<RedisReply> {
+    if (!this.conn) await this.connect();
+    await this.write(encodeCommand(args));
+    return await this.readReply();
+  }
+
+  private async connect(): Promise<void> {
+    const hostname = this.url.hostname || 'localhost';
+    const port = Number(this.url.port) || 6379;
+    this.conn = this.url.protocol === 'rediss:'
+      ? await Deno.connectTls({ hostname, port })
+      : await Deno.connect({ hostname, port });
+
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    if (password) {
+      await this.write(encodeCommand(username ? ['AUTH', username, password] : ['AUTH', password]));
+      await this.readReply();
+    }
+    const db = this.url.pathname.slice(1);
+    if (db) {
+      await this.write(encodeCommand(['SELECT', db]));
+      await this.readReply();
+    }
+  }
+
+  private async write(data: Uint8Array): Promise<void> {
+    let written = 0;
+    while (written < data.length) {
+      written += await this.conn!.write(data.subarray(written));
+    }
+  }
+
+  private async readReply(): Promise<RedisReply> {
+    while (true) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = parseReply(this.buffer);
+      } catch (error) {
+        // Whatever follows cannot be matched to a command
+        this.close();
+        throw error;
+      }
+      if (parsed) {
+        this.buffer = this.buffer.subarray(parsed.end);
+        if (parsed.value instanceof RedisError) throw parsed.value;
+        return parsed.value;
+      }
+      const chunk = new Uint8Array(64 * 1024);
+      const read = await this.conn!.read(chunk);
+      if (read === null) throw new Error('Connection closed by Redis');
+      const buffer = new Uint8Array(this.buffer.length + read);
+      buffer.set(this.buffer);
+      buffer.set(chunk.subarray(0, read), this.buffer.length);
+      this.buffer = buffer;
+    }
+  }
+
+  /**
+   * Fails a command that takes longer than the timeout. The connection is dropped on
+   * any failure except an error reply, so the next command starts from a clean state.
+   */
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Redis did not respond within ${this.timeout}ms`)), this.timeout);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } catch (error) {
+      if (!(error instanceof RedisError)) this.close();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Cache in Redis. Each entry is a hash with its content, creation and expiry time and
+ * hit count, expiring after the TTL; a sorted set ordered by last use evicts the least recently
+ * used entries beyond maxSize. All keys start with the prefix.
+ */
+export class RedisCache implements Cache {
+  readonly name = 'redis';
+  private index: string;
+
+  /**
+   * @param redis - Connection to run the commands on
+   * @param prefix - Key prefix separating this cache from other data in the database
+   * @param maxSize - Entries kept
+   * @param ttl - Default lifetime of an entry in milliseconds
+   */
+  constructor(private redis: RedisConnection, private prefix: string, private maxSize: number, private ttl: number) {
+    this.index = `${prefix}lru`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const [content] = await this.redis.command('HMGET', this.prefix + key, 'content') as RedisReply[];
+    if (content === null) {
+      await this.redis.command('ZREM', this.index, key);
+      return null;
+    }
+    await this.redis.command('HINCRBY', this.prefix + key, 'hits', 1);
+    await this.redis.command('ZADD', this.index, Date.now(), key);
+    return content as string;
+  }
+
+  async set(key: string, content: string, ttl = this.ttl): Promise<void> {
+    const now = Date.now();
+    await this.redis.command('HSET', this.prefix + key, 'content', content, 'created', now, 'expires', now + ttl, 'hits', 0);
+    await this.redis.command('PEXPIRE', this.prefix + key, Math.max(1, ttl));
+    await this.redis.command('ZADD', this.index, now, key);
+
+    const size = await this.redis.command('ZCARD', this.index) as number;
+    if (size > this.maxSize) {
+      const evicted = await this.redis.command('ZRANGE', this.index, 0, size - this.maxSize - 1) as string[];
+      await this.redis.command('DEL', ...evicted.map(item => this.prefix + item));
+      await this.redis.command('ZREM', this.index, ...evicted);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.redis.command('ZREM', this.index, key);
+    return await this.redis.command('DEL', this.prefix + key) as number > 0;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.redis.command('ZRANGE', this.index, 0, -1) as string[];
+    if (keys.length) await this.redis.command('DEL', ...keys.map(key => this.prefix + key));
+    await this.redis.command('DEL', this.index);
+  }
+
+  async stats(): Promise<CacheStats> {
+    const keys = await this.redis.command('ZRANGE', this.index, 0, -1) as string[];
+    const entries: Array<{ created: number; hits: number }> = [];
+    for (const key of keys) {
+      const [created, hits] = await this.redis.command('HMGET', this.prefix + key, 'created', 'hits') as RedisReply[];
+      if (created === null) {
+        // Expired by Redis; forget it in the index as well
+        await this.redis.command('ZREM', this.index, key);
+      } else {
+        entries.push({ created: Number(created), hits: Number(hits) });
+      }
+    }
+
+    const now = Date.now();
+    return {
+      size: entries.length,
+      totalHits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+      averageAge: entries.length ? entries.reduce((sum, entry) => sum + now - entry.created, 0) / entries.length / 1000 / 60 : 0
+    };
+  }
+
+  async list(): Promise<CacheEntryInfo[]> {
+    const keys = await this.redis.command('ZRANGE', this.index, 0, -1) as string[];
+    const entries: CacheEntryInfo[] = [];
+    for (const key of keys.reverse()) {
+      const record = await this.read(key);
+      if (record) entries.push(entryInfo(key, record.created, record.expires, record.hits, record.content));
+    }
+    return entries;
+  }
+
+  async read(key: string): Promise<CacheRecord | null> {
+    const [content, created, expires, hits] = await this.redis.command('HMGET', this.prefix + key, 'content', 'created', 'expires', 'hits') as RedisReply[];
+    if (content === null) return null;
+    return {
+      key,
+      content: content as string,
+      created: Number(created),
+      // Entries written before the expiry time was stored
+      expires: expires === null ? Number(created) + this.ttl : Number(expires),
+      hits: Number(hits)
+    };
+  }
+
+  /**
+   * Redis deletes expired entries itself; this removes them from the LRU index
+   */
+  async prune(): Promise<number> {
+    const keys = await this.redis.command('ZRANGE', this.index, 0, -1) as string[];
+    const expired: string[] = [];
+    for (const key of keys) {
+      const [created] = await this.redis.command('HMGET', this.prefix + key, 'created') as RedisReply[];
+      if (created === null) expired.push(key);
+    }
+    if (expired.length) await this.redis.command('ZREM', this.index, ...expired);
+    return expired.length;
+  }
+
+  close(): void {
+    this.redis.close();
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Passage retrieval for Ollama WebSearch
+ * Splits page text into passages and ranks them by embedding similarity to the query,
+ * so only the most relevant passages of each source are sent to the model
+ */
+
+import { sourceHeader, splitIntoChunks } from "./summarize.ts";
+
+/**
+ * Settings from the `retrieval` block of config.json
+ */
+export interface RetrievalSettings {
+  enabled: boolean;
+  model: string;              // Ollama embedding model, e.g. "nomic-embed-text"
+  topK: number;               // Passages sent to the model, across all sources
+  passageTokens: number;      // Longest passage in estimated tokens
+  queryPrefix: string;        // Prepended to the query before embedding (nomic-embed-text expects "search_query: ")
+  documentPrefix: string;     // Prepended to each passage before embedding ("search_document: ")
+}
+
+/**
+ * A passage with its similarity to the query
+ */
+export interface ScoredPassage {
+  source: number;             // Index of the source the passage comes from
+  position: number;           // Index of the passage within its source
+  text: string;
+  score: number;              // Cosine similarity to the query, from -1 to 1
+}
+
+/**
+ * Splits page text into passages for embedding
+ *
+ * @param text - Clean page text
+ * @param passageTokens - Longest passage in estimated tokens
+ * @returns string[] - Passages in page order
+ */
+export function splitPassages(text: string, passageTokens: number): string[] {
+  return splitIntoChunks(text, passageTokens).filter(passage => passage.trim());
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks the passages of all sources by similarity to the query and keeps the best topK
+ *
+ * @param queryVector - Embedding of the query
+ * @param sources - Passages of each source with their embeddings, in the same order
+ * @param topK - Passages to keep
+ * @returns ScoredPassage[] - The best passages, highest score first
+ */
+export function rankPassages(
+  queryVector: number[],
+  sources: Array<{ passages: string[]; vectors: number[][] }>,
+  topK: number
+): ScoredPassage[] {
+  return sources
+    .flatMap((source, index) => source.passages.map((text, position) => ({
+      source: index,
+      position,
+      text,
+      score: cosineSimilarity(queryVector, source.vectors[position] ?? [])
+    })))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(1, topK));
+}
+
+/**
+ * Rebuilds a source block from its attribution lines and its selected passages in page order
+ *
+ * @param content - Attributed source block
+ * @param passages - Selected passages of this source
+ * @returns string - The block with only these passages, or an empty string when none was selected
+ */
+export function passageContent(content: string, passages: ScoredPassage[]): string {
+  if (!passages.length) return '';
+  const { header } = sourceHeader(content);
+  const text = [...passages].sort((a, b) => a.position - b.position).map(passage => passage.text).join('\n\n[…]\n\n');
+  return `${header}\n📌 Passages: the ${passages.length} most relevant to the query\n\n${text}\n\n${'─'.repeat(80)}\n`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Retry policy for Ollama WebSearch
+ * Exponential backoff with jitter for the search provider, page fetches and Ollama calls
+ */
+
+import { sleep } from "./pool.ts";
+
+export interface RetryPolicy {
+  maxRetries: number;     // Retries after the first attempt
+  retryDelay: number;     // Base delay in milliseconds, doubled for every retry
+}
+
+/**
+ * Longest wait before a retry. A Retry-After further away than this ends the retries.
+ */
+export const MAX_RETRY_DELAY = 30000;
+
+/**
+ * An HTTP response with an error status, carrying what is needed to decide on a retry
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly retryAfter?: number;   // Milliseconds requested by the Retry-After header
+
+  constructor(message: string, response: Response) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = response.status;
+    this.retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+  }
+}
+
+/**
+ * Parses a Retry-After header given in seconds or as an HTTP date
+ *
+ * @returns number | undefined - Milliseconds to wait, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return parseInt(value) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * HTTP statuses worth retrying: request timeout, rate limiting and temporary server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || (status >= 500 && status !== 501 && status !== 505);
+}
+
+/**
+ * Classifies an error as transient: timeouts, retryable HTTP statuses (including Ollama's
+ * `status_code`) and dropped connections. DNS failures, refused connections and client
+ * errors are permanent.
+ */
+export function isRetryable(error: unknown): boolean {
+  const failure = error as { name?: string; message?: string; status?: number; status_code?: number; code?: string };
+  if (!failure) return false;
+  if (failure.name === 'AbortError' || failure.name === 'TimeoutError') return true;
+
+  const status = failure.status ?? failure.status_code;
+  if (typeof status === 'number') return isRetryableStatus(status);
+
+  const text = `${failure.code ?? ''} ${failure.message ?? ''}`.toLowerCase();
+  return ['econnreset', 'connection reset', 'connection closed', 'epipe', 'broken pipe', 'etimedout', 'socket hang up', 'unexpected eof']
+    .some(marker => text.includes(marker));
+}
+
+/**
+ * Delay before the given retry: Retry-After when the server sent one, otherwise
+ * retryDelay * 2^(retry - 1) with equal jitter (between half and all of it)
+ *
+ * @param retry - 1 for the first retry
+ * @returns number | undefined - Milliseconds to wait, or undefined when Retry-After exceeds MAX_RETRY_DELAY
+ */
+export function backoffDelay(error: unknown, retry: number, policy: RetryPolicy): number | undefined {
+  const retryAfter = (error as HttpStatusError)?.retryAfter;
+  if (retryAfter !== undefined) return retryAfter <= MAX_RETRY_DELAY ? retryAfter : undefined;
+
+  const delay = Math.min(MAX_RETRY_DELAY, Math.max(0, policy.retryDelay) * 2 ** (retry - 1));
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff.
+ * The last error is rethrown once the retries are used up or the error is permanent.
+ *
+ * @param operation - Called with the attempt number (0 for the first attempt)
+ * @param policy - Number of retries and base delay
+ * @param onRetry - Called before waiting for each retry, e.g. to log and count it
+ * @param signal - Cancels the operation: no further retries, and waiting for one is cut short
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: Error, delay: number, retry: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxRetries || !isRetryable(error)) throw error;
+      const delay = backoffDelay(error, attempt + 1, policy);
+      if (delay === undefined) throw error;
+
+      onRetry?.(error as Error, delay, attempt + 1);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Domain rules for Ollama WebSearch
+ * Deny, allow-only, boost and demote search results by host, path prefix or regular expression
+ */
+
+export type RuleAction = 'deny' | 'allow' | 'boost' | 'demote';
+
+export const RULE_ACTIONS: RuleAction[] = ['deny', 'allow', 'boost', 'demote'];
+
+/**
+ * A domain rule. Every matcher that is set must match the URL.
+ */
+export interface DomainRule {
+  action: RuleAction;       // allow: once any allow rule exists, only matching URLs are kept
+  host?: string;            // Exact host ("docs.python.org"), or "*.example.com" for example.com and its subdomains
+  pathPrefix?: string;      // URL path prefix, e.g. "/blog/"
+  pattern?: string;         // Regular expression tested against the full URL (case-insensitive)
+  weight?: number;          // Boost/demote strength (default: 1)
+  comment?: string;         // Free text, shown when the rule rejects a URL
+}
+
+/**
+ * A search hit that can be filtered and reordered by the rules
+ */
+interface RankedItem {
+  url: string;
+}
+
+/**
+ * Loads rules from a JSON file holding an array of rules or `{ "rules": [...] }`
+ *
+ * @param path - Rule file path
+ * @returns DomainRule[] - The validated rules
+ */
+export function loadRules(path: string): DomainRule[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(Deno.readTextFileSync(path));
+  } catch (error) {
+    throw new Error(`Could not read rule file ${path}: ${(error as Error).message}`);
+  }
+
+  const rules = Array.isArray(json) ? json : (json as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`${path} must contain an array of rules or { "rules": [...] }`);
+  }
+
+  rules.forEach((rule, index) => {
+    const problem = validateRule(rule);
+    if (problem) throw new Error(`Invalid rule #${index + 1} in ${path}: ${problem}`);
+  });
+  return rules;
+}
+
+/**
+ * Describes what is wrong with a rule, or returns undefined for a valid rule
+ */
+function validateRule(rule: DomainRule): string | undefined {
+  if (!rule || typeof rule !== 'object') return 'not an object';
+  if (!RULE_ACTIONS.includes(rule.action)) return `action must be one of: ${RULE_ACTIONS.join(', ')}`;
+  if (!rule.host && !rule.pathPrefix && !rule.pattern) return 'needs at least one of host, pathPrefix or pattern';
+  if (rule.weight !== undefined && typeof rule.weight !== 'number') return 'weight must be a number';
+  if (rule.pattern) {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      return `invalid pattern: ${(error as Error).message}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable form of a rule for logs and rejection details
+ */
+export function describeRule(rule: DomainRule): string {
+  const matchers = [
+    rule.host,
+    rule.pathPrefix && `path ${rule.pathPrefix}`,
+    rule.pattern && `/${rule.pattern}/`
+  ].filter(Boolean).join(' ');
+  return `${rule.action} ${matchers}${rule.comment ? ` (${rule.comment})` : ''}`;
+}
+
+/**
+ * Compiled rule set applied to search results
+ */
+export class DomainRules {
+  private compiled: Array<{ rule: DomainRule; regex?: RegExp }>;
+  private hasAllowRules: boolean;
+
+  constructor(rules: DomainRule[] = []) {
+    this.compiled = rules.map((rule, index) => {
+      const problem = validateRule(rule);
+      if (problem) throw new Error(`Invalid domain rule #${index + 1}: ${problem}`);
+      return { rule, regex: rule.pattern ? new RegExp(rule.pattern, 'i') : undefined };
+    });
+    this.hasAllowRules = rules.some(rule => rule.action === 'allow');
+  }
+
+  get size(): number {
+    return this.compiled.length;
+  }
+
+  /**
+   * Checks a URL against the deny and allow rules. Deny rules take precedence.
+   *
+   * @returns The verdict, with the deciding deny rule or a reason when the URL is rejected
+   */
+  check(url: string): { allowed: boolean; reason?: string } {
+    const matching = this.matching(url);
+    const denied = matching.find(rule => rule.action === 'deny');
+    if (denied) return { allowed: false, reason: `denied by rule: ${describeRule(denied)}` };
+    if (this.hasAllowRules && !matching.some(rule => rule.action === 'allow')) {
+      return { allowed: false, reason: 'not matched by any allow rule' };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Sum of the boost weights minus the demote weights of the rules matching a URL
+   */
+  weight(url: string): number {
+    return this.matching(url).reduce((sum, rule) => {
+      if (rule.action === 'boost') return sum + (rule.weight ?? 1);
+      if (rule.action === 'demote') return sum - (rule.weight ?? 1);
+      return sum;
+    }, 0);
+  }
+
+  /**
+   * Moves boosted results up and demoted results down, keeping the ranked order among equal weights
+   */
+  reorder<T extends RankedItem>(items: T[]): T[] {
+    if (!this.compiled.some(({ rule }) => rule.action === 'boost' || rule.action === 'demote')) return items;
+    return items
+      .map((item, index) => ({ item, index, weight: this.weight(item.url) }))
+      .sort((a, b) => b.weight - a.weight || a.index - b.index)
+      .map(({ item }) => item);
+  }
+
+  private matching(url: string): DomainRule[] {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return [];
+    }
+    const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+
+    return this.compiled
+      .filter(({ rule, regex }) => {
+        if (rule.host && !matchesHost(host, rule.host.toLowerCase())) return false;
+        if (rule.pathPrefix && !parsed.pathname.startsWith(rule.pathPrefix)) return false;
+        if (regex && !regex.test(url)) return false;
+        return true;
+      })
+      .map(({ rule }) => rule);
+  }
+}
+
+/**
+ * Matches a host exactly, or a "*.example.com" wildcard against example.com and its subdomains
+ */
+function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const domain = pattern.slice(2);
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === pattern;
+}
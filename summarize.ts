@@ -0,0 +1,229 @@
+/**
+ * Token-budget-aware summarization for Ollama WebSearch
+ * Estimates how many tokens the sources take and, when they do not fit the model's
+ * context window, summarizes each source (or chunk of a long source) against the query
+ * so the final answer is written from the partial summaries instead of truncated text
+ */
+
+import { runPool } from "./pool.ts";
+
+export type SummaryStrategy = 'single' | 'map-reduce';
+
+export const SUMMARY_STRATEGIES: Array<'auto' | SummaryStrategy> = ['auto', 'single', 'map-reduce'];
+
+/**
+ * Settings from the `summarization` block of config.json
+ */
+export interface SummarizationSettings {
+  strategy: 'auto' | SummaryStrategy; // auto: map-reduce only when the sources do not fit the context window
+  contextWindow: number;      // Tokens the model reads at once (num_ctx)
+  responseTokens: number;     // Tokens reserved for the answer (num_predict)
+  summaryTokens: number;      // Longest summary of one source or chunk, in tokens
+  concurrency: number;        // Summaries generated at the same time
+}
+
+/**
+ * How the answer was produced, recorded in the result
+ */
+export interface SummaryPlan {
+  strategy: SummaryStrategy;
+  estimatedTokens: number;    // Estimated tokens of the prompt with every source in full
+  contextWindow: number;
+  parts: number;              // Sources and chunks summarized on their own (0 for single)
+  rounds: number;             // Summarization rounds before the answer (0 for single)
+}
+
+/**
+ * Generates text for a prompt, e.g. with Ollama
+ *
+ * @param prompt - Complete prompt
+ * @param maxTokens - Longest response in tokens
+ * @returns Promise<string> - The response
+ */
+export type Generate = (prompt: string, maxTokens: number) => Promise<string>;
+
+// Tokens kept free in every prompt for the tokenizer differing from the estimate
+export const SAFETY_MARGIN = 256;
+
+/**
+ * Estimates the tokens of a text without the model's tokenizer: about four characters per
+ * token for ASCII text and one per character otherwise, which errs on the high side
+ *
+ * @param text - Any text
+ * @returns number - Estimated tokens
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+  }
+  return Math.ceil(ascii / 4 + (text.length - ascii));
+}
+
+/**
+ * Decides between one prompt with every source and summarizing the sources first
+ *
+ * @param promptTokens - Estimated tokens of the complete single prompt
+ * @param settings - Summarization settings
+ * @returns SummaryStrategy - The strategy to use
+ * @throws Error if settings.strategy is not a known strategy
+ */
+export function chooseStrategy(promptTokens: number, settings: SummarizationSettings): SummaryStrategy {
+  if (!SUMMARY_STRATEGIES.includes(settings.strategy)) {
+    throw new Error(`Unknown summarization strategy "${settings.strategy}" (expected one of: ${SUMMARY_STRATEGIES.join(', ')})`);
+  }
+  if (settings.strategy !== 'auto') return settings.strategy;
+  return promptTokens + settings.responseTokens + SAFETY_MARGIN <= settings.contextWindow ? 'single' : 'map-reduce';
+}
+
+/**
+ * Splits a text into chunks of at most maxTokens, at paragraph breaks where possible,
+ * then at sentence ends, and within sentences only when a sentence alone is too long
+ *
+ * @param text - Text to split
+ * @param maxTokens - Largest chunk in estimated tokens
+ * @returns string[] - The chunks in order
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+  const limit = Math.max(1, maxTokens);
+  const pieces = text.split(/\n{2,}/).flatMap(paragraph => {
+    if (estimateTokens(paragraph) <= limit) return [paragraph];
+    return (paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [paragraph]).flatMap(sentence => hardSplit(sentence, limit));
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const separator = current && !/\s$/.test(current) ? '\n\n' : '';
+    if (current && estimateTokens(current + separator + piece) > limit) {
+      chunks.push(current.trim());
+      current = piece;
+    } else {
+      current += separator + piece;
+    }
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+}
+
+/**
+ * Cuts a text without usable breaks into pieces of at most maxTokens
+ */
+function hardSplit(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (estimateTokens(rest) > maxTokens) {
+    let length = Math.min(rest.length - 1, maxTokens * 4);
+    while (length > 1 && estimateTokens(rest.slice(0, length)) > maxTokens) {
+      length = Math.max(1, Math.floor(length * maxTokens / estimateTokens(rest.slice(0, length))) - 1);
+    }
+    pieces.push(rest.slice(0, length));
+    rest = rest.slice(length);
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Prompt asking for the parts of one source (or chunk) that answer the query
+ */
+export function mapPrompt(query: string, source: string): string {
+  return `Summarize what the following web source says that helps answer the query "${query}".
+Keep facts, figures, dates and names, and note who says what. Leave out everything unrelated to the query.
+Do not add citation markers; the source's number is kept with your summary.
+If nothing in it is relevant, reply with "No relevant information."
+
+${source}
+
+Summary:`;
+}
+
+/**
+ * Prompt merging several partial summaries into one
+ */
+function combinePrompt(query: string, summaries: string[]): string {
+  return `The following notes were taken from web sources to answer the query "${query}".
+Merge them into one set of notes, keeping every relevant fact, figure and date with the number of its source in square brackets, e.g. [2].
+
+${summaries.join('\n\n')}
+
+Merged notes:`;
+}
+
+/**
+ * Separates the attribution lines at the top of a source block (everything before the first
+ * blank line) from its text
+ */
+export function sourceHeader(source: string): { header: string; body: string } {
+  const end = source.indexOf('\n\n');
+  return end < 0 ? { header: '', body: source } : { header: source.slice(0, end), body: source.slice(end + 2) };
+}
+
+/**
+ * Map step of map-reduce: summarizes each source, or each chunk of a source too long for the
+ * context window, against the query. Summaries that together do not fit the final prompt beside
+ * its instructions and the response are merged in further rounds until they fit or stop shrinking.
+ *
+ * @param query - The user's query
+ * @param sources - Attributed source blocks, attribution lines first
+ * @param overhead - Estimated tokens of the final prompt without the sources
+ * @param settings - Summarization settings
+ * @param generate - Produces the summaries
+ * @returns The summaries to answer from, the parts summarized and the rounds taken
+ */
+export async function summarizeSources(
+  query: string,
+  sources: string[],
+  overhead: number,
+  settings: SummarizationSettings,
+  generate: Generate
+): Promise<{ summaries: string[]; parts: number; rounds: number }> {
+  const budget = settings.contextWindow - settings.responseTokens - overhead - SAFETY_MARGIN;
+  const inputBudget = settings.contextWindow - settings.summaryTokens - estimateTokens(mapPrompt(query, '')) - SAFETY_MARGIN;
+  if (inputBudget < 64) {
+    throw new Error(`summarization.contextWindow (${settings.contextWindow}) is too small for summaries of ${settings.summaryTokens} tokens`);
+  }
+
+  const parts = sources.flatMap(source => {
+    const { header, body } = sourceHeader(source);
+    const chunks = splitIntoChunks(body, inputBudget - estimateTokens(header));
+    return chunks.map((chunk, index) => ({
+      header: chunks.length > 1 ? `${header}\n(Part ${index + 1} of ${chunks.length})` : header,
+      chunk
+    }));
+  });
+
+  let summaries = await generateAll(parts, async part => {
+    const summary = await generate(mapPrompt(query, `${part.header}\n\n${part.chunk}`), settings.summaryTokens);
+    return `${part.header}\n\n${summary.trim()}`;
+  }, settings);
+  let rounds = 1;
+
+  // Reduce: merge neighbouring summaries until they fit the final prompt
+  while (summaries.length > 1 && estimateTokens(summaries.join('\n\n')) > budget) {
+    const groups: string[][] = [];
+    for (const summary of summaries) {
+      const group = groups[groups.length - 1];
+      if (group && estimateTokens([...group, summary].join('\n\n')) <= inputBudget) group.push(summary);
+      else groups.push([summary]);
+    }
+    if (groups.length === summaries.length) break;   // Each summary fills a prompt on its own
+
+    summaries = await generateAll(groups, async group =>
+      group.length === 1 ? group[0] : (await generate(combinePrompt(query, group), settings.summaryTokens)).trim(), settings);
+    rounds++;
+  }
+
+  return { summaries, parts: parts.length, rounds };
+}
+
+/**
+ * Runs `task` for each item with settings.concurrency at a time, keeping the order of the items
+ */
+async function generateAll<T>(items: T[], task: (item: T) => Promise<string>, settings: SummarizationSettings): Promise<string[]> {
+  const results: string[] = new Array(items.length);
+  await runPool(items, async (item, _signal, index) => {
+    results[index] = await task(item);
+  }, { concurrency: settings.concurrency });
+  return results;
+}
@@ -4,6 +4,27 @@
  */
 
 import { assertEquals, assertExists, assertGreater } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { createMetrics, decideFollowUp, fuseResults, getCleanedText, getNewsUrls, htmlToDocument, htmlToText, search } from "./main.ts";
+import { closeCaches, FallbackCache, MemoryCache, openCache, SqliteCache } from "./cache.ts";
+import { runCli } from "./cli.ts";
+import { addSources, chatMessages, createSession, loadSession, parseDecision, saveSession } from "./chat.ts";
+import { resetCrawlState, RobotsTxt } from "./crawler.ts";
+import { decodeBody, detectCharset, readBody } from "./decode.ts";
+import { resolveCitations } from "./citations.ts";
+import { canonicalizeUrl, hammingDistance, isNearDuplicate, simhash } from "./dedupe.ts";
+import { findMainContent } from "./extract.ts";
+import { compileExtractorRules, extractSite, findExtractor, registerExtractor, unregisterExtractor } from "./extractors.ts";
+import { OutputFormatter, type SearchResult } from "./output.ts";
+import { runPool } from "./pool.ts";
+import { encodeCommand, parseReply, RedisCache, RedisClient, type RedisConnection, type RedisReply } from "./redis.ts";
+import { cosineSimilarity, passageContent, rankPassages, splitPassages } from "./retrieval.ts";
+import { DomainRules, loadRules } from "./rules.ts";
+import { chooseStrategy, estimateTokens, splitIntoChunks, summarizeSources } from "./summarize.ts";
+import { backoffDelay, HttpStatusError, isRetryable, isRetryableStatus, parseRetryAfter } from "./retry.ts";
+import { createSearchProvider, JsonProvider, LocalProvider, SearxngProvider } from "./providers.ts";
+
+// Keep the page cache of test runs out of the user's cache directory
+Deno.env.set("XDG_CACHE_HOME", Deno.makeTempDirSync({ prefix: "websearch-test-" }));
 
 // Mock implementations for testing
 class MockOllama {
@@ -131,6 +152,228 @@ Deno.test("Cache - Basic Operations", () => {
   assertEquals(cache.get("test-key"), "test-value");
 });
 
+Deno.test("Cache - LRU eviction and TTL", async () => {
+  const cache = new MemoryCache(2, 60_000);
+  await cache.set("a", "1");
+  await cache.set("b", "2");
+  assertEquals(await cache.get("a"), "1");   // "b" is now the least recently used
+  await cache.set("c", "3");
+  
+  assertEquals(await cache.get("b"), null);
+  assertEquals(await cache.get("a"), "1");
+  assertEquals(await cache.get("c"), "3");
+  assertEquals((await cache.stats()).size, 2);
+  assertEquals((await cache.stats()).totalHits, 3);
+  
+  const expired = new MemoryCache(10, -1);
+  await expired.set("a", "1");
+  assertEquals(await expired.get("a"), null);
+});
+
+Deno.test("Cache - SQLite entries persist across processes", async () => {
+  const path = `${await Deno.makeTempDir()}/nested/cache.sqlite`;
+  
+  const first = new SqliteCache(path, 2, 60_000);
+  await first.set("url:https://a.test/", "page a");
+  await first.set("url:https://b.test/", "page b");
+  first.close();
+  
+  // A new process opens the same file
+  const second = new SqliteCache(path, 2, 60_000);
+  try {
+    assertEquals(await second.get("url:https://a.test/"), "page a");
+    await second.set("url:https://c.test/", "page c");
+    assertEquals(await second.get("url:https://b.test/"), null);
+    assertEquals(await second.get("url:https://a.test/"), "page a");
+    assertEquals((await second.stats()).size, 2);
+    assertEquals(await second.delete("url:https://c.test/"), true);
+    assertEquals(await second.get("url:https://c.test/"), null);
+  } finally {
+    second.close();
+  }
+});
+
+Deno.test("Cache - list, prune, export and import through the cache command", async () => {
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/cache.sqlite`;
+  const configPath = `${directory}/config.json`;
+  await Deno.writeTextFile(configPath, JSON.stringify({ cache: { path, maxSize: 10 } }));
+  
+  const cache = new SqliteCache(path, 10, 60_000);
+  try {
+    await cache.set("page:https://a.test/", JSON.stringify({ text: "page a", fetchedAt: "2024-01-01T00:00:00Z" }));
+    await cache.set("search:3f7a", "[]");
+    await cache.get("page:https://a.test/");
+    await cache.set("answer:old", "expiring", 1);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    
+    // Most recently used first, expired entries left out; reading counts no hit
+    assertEquals((await cache.list()).map(entry => [entry.key, entry.namespace, entry.hits]),
+      [["page:https://a.test/", "page", 1], ["search:3f7a", "search", 0]]);
+    assertEquals((await cache.list())[1].size, 2);
+    assertEquals((await cache.read("page:https://a.test/"))?.hits, 1);
+    assertEquals(await cache.read("answer:old"), null);
+    assertEquals(await cache.prune(), 1);
+    
+    const exportPath = `${directory}/export.json`;
+    await runCli(["--config", configPath, "cache", "export", exportPath]);
+    await runCli(["--config", configPath, "cache", "purge", "page:*a.test"]);
+    assertEquals((await cache.list()).map(entry => entry.key), ["search:3f7a"]);
+    
+    await runCli(["--config", configPath, "cache", "import", exportPath]);
+    assertEquals((await cache.list()).map(entry => entry.key), ["page:https://a.test/", "search:3f7a"]);
+    assertEquals(await cache.get("page:https://a.test/"), JSON.stringify({ text: "page a", fetchedAt: "2024-01-01T00:00:00Z" }));
+  } finally {
+    cache.close();
+  }
+});
+
+/**
+ * In-process Redis stand-in with the commands RedisCache uses
+ */
+class FakeRedis implements RedisConnection {
+  hashes = new Map<string, Map<string, string>>();
+  sets = new Map<string, Map<string, number>>();
+  
+  command(name: string | number, key: string | number, ...rest: Array<string | number>): Promise<RedisReply> {
+    const args = rest.map(String);
+    const hash = this.hashes.get(String(key)) ?? new Map<string, string>();
+    const set = this.sets.get(String(key)) ?? new Map<string, number>();
+    const sorted = () => [...set].sort((a, b) => a[1] - b[1]).map(([member]) => member);
+    
+    switch (name) {
+      case "HSET":
+        for (let i = 0; i < args.length; i += 2) hash.set(args[i], args[i + 1]);
+        this.hashes.set(String(key), hash);
+        return Promise.resolve(args.length / 2);
+      case "HMGET":
+        return Promise.resolve(args.map(field => this.hashes.get(String(key))?.get(field) ?? null));
+      case "HINCRBY":
+        hash.set(args[0], String(Number(hash.get(args[0]) ?? 0) + Number(args[1])));
+        return Promise.resolve(Number(hash.get(args[0])));
+      case "ZADD":
+        set.set(args[1], Number(args[0]));
+        this.sets.set(String(key), set);
+        return Promise.resolve(1);
+      case "ZCARD":
+        return Promise.resolve(set.size);
+      case "ZRANGE":
+        return Promise.resolve(sorted().slice(Number(args[0]), Number(args[1]) < 0 ? undefined : Number(args[1]) + 1));
+      case "ZREM":
+        return Promise.resolve(args.filter(member => set.delete(member)).length);
+      case "DEL":
+        return Promise.resolve([key, ...args].map(String).filter(item => this.hashes.delete(item) || this.sets.delete(item)).length);
+      default:
+        return Promise.resolve("OK");   // PEXPIRE
+    }
+  }
+  
+  close() {}
+}
+
+Deno.test("Cache - Redis protocol encoding and parsing", () => {
+  assertEquals(new TextDecoder().decode(encodeCommand(["HSET", "k", "café"])), "*3\r\n$4\r\nHSET\r\n$1\r\nk\r\n$5\r\ncafé\r\n");
+  
+  const bytes = new TextEncoder().encode("*3\r\n$5\r\ncafé\r\n$-1\r\n:42\r\n+OK\r\n");
+  const array = parseReply(bytes);
+  assertEquals(array?.value, ["café", null, 42]);
+  assertEquals(parseReply(bytes, array!.end)?.value, "OK");
+  
+  // Incomplete replies wait for more data; error replies are returned as errors
+  assertEquals(parseReply(bytes.subarray(0, 12)), null);
+  assertEquals((parseReply(new TextEncoder().encode("-ERR wrong\r\n"))?.value as Error).message, "ERR wrong");
+  
+  // An error inside an array ends after the whole array, so the next reply stays in sync
+  const failed = new TextEncoder().encode("*3\r\n+OK\r\n-WRONGTYPE bad\r\n:1\r\n+NEXT\r\n");
+  const error = parseReply(failed);
+  assertEquals((error?.value as Error).message, "WRONGTYPE bad");
+  assertEquals(parseReply(failed, error!.end)?.value, "NEXT");
+});
+
+Deno.test("Cache - Redis backend with LRU eviction and local fallback", async () => {
+  const redis = new FakeRedis();
+  const cache = new RedisCache(redis, "test:", 2, 60_000);
+  await cache.set("url:a", "page a");
+  await new Promise(resolve => setTimeout(resolve, 2));
+  await cache.set("url:b", "page b");
+  await new Promise(resolve => setTimeout(resolve, 2));
+  assertEquals(await cache.get("url:a"), "page a");
+  await new Promise(resolve => setTimeout(resolve, 2));
+  await cache.set("url:c", "page c");
+  
+  assertEquals(await cache.get("url:b"), null);
+  assertEquals(redis.hashes.has("test:url:b"), false);
+  assertEquals((await cache.stats()).size, 2);
+  assertEquals((await cache.stats()).totalHits, 1);
+  assertEquals((await cache.list()).map(entry => [entry.key, entry.hits, entry.size]), [["url:c", 0, 6], ["url:a", 1, 6]]);
+  assertEquals((await cache.read("url:a"))?.content, "page a");
+  
+  // Nothing listens on port 1, so the local cache takes over
+  const warnings: string[] = [];
+  const local = new MemoryCache(10, 60_000);
+  const shared = new FallbackCache(new RedisCache(new RedisClient("redis://127.0.0.1:1"), "test:", 10, 60_000), local, message => warnings.push(message));
+  await shared.set("url:d", "page d");
+  assertEquals(await shared.get("url:d"), "page d");
+  assertEquals(await local.get("url:d"), "page d");
+  assertEquals(shared.name, "memory");
+  assertEquals(warnings.length, 1);
+  assertEquals(warnings[0].startsWith("redis cache unavailable"), true);
+  shared.close();
+  
+  // The SQLite fallback of the redis backend is shared through openCache() and closed once
+  const dir = Deno.makeTempDirSync();
+  const redisBacked = openCache({
+    enabled: true, backend: "redis", maxSize: 10, ttlMinutes: 60, revalidateMinutes: 0, searchTtlMinutes: 0, answerTtlMinutes: 0,
+    path: `${dir}/cache.db`, redisUrl: "redis://127.0.0.1:1", keyPrefix: "test:"
+  });
+  await redisBacked.set("url:e", "page e");
+  closeCaches();
+  closeCaches();
+  Deno.removeSync(dir, { recursive: true });
+});
+
+Deno.test("Cache - pages revalidated with conditional requests, search results reused", async () => {
+  const originalFetch = globalThis.fetch;
+  const conditional: Array<string | null> = [];
+  let searches = 0;
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    if (url.includes("format=json")) {
+      searches++;
+      return Promise.resolve(new Response(JSON.stringify({ results: [{ url: "https://cached.example/story", title: "Story" }] })));
+    }
+    const etag = new Headers(init?.headers).get("If-None-Match");
+    conditional.push(etag);
+    return Promise.resolve(etag === '"v1"'
+      ? new Response(null, { status: 304, headers: { "etag": '"v1"' } })
+      : new Response(`<html><body><article>${MOCK_HTML}</article></body></html>`, { headers: { "content-type": "text/html", "etag": '"v1"' } }));
+  };
+  
+  // Pages are never fresh, so every later use revalidates
+  const options = {
+    searchUrl: "http://cache.test/search",
+    cache: { backend: "memory" as const, ttlMinutes: 0 },
+    networking: { respectRobots: false, maxRetries: 0 }
+  };
+  try {
+    const [first] = await getCleanedText(["https://cached.example/story"], options);
+    const metrics = createMetrics();
+    const [second] = await getCleanedText(["https://cached.example/story"], { ...options, metrics });
+    
+    assertEquals(conditional, [null, '"v1"']);
+    assertEquals(second.text, first.text);
+    assertEquals(metrics.cache.revalidated, 1);
+    assertEquals(metrics.cacheHits, 1);
+    
+    await getNewsUrls("cached story", options);
+    await getNewsUrls("cached story", { ...options, metrics });
+    assertEquals(searches, 1);
+    assertEquals(metrics.cache.search, 1);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
 /**
  * Integration Tests
  */
@@ -181,6 +424,1144 @@ Deno.test("Content Extraction - HTML Processing", async () => {
   }
 });
 
+Deno.test("Library - getNewsUrls and getCleanedText", async () => {
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    if (url.toString().startsWith("http://search.test/")) {
+      return Promise.resolve(new Response(JSON.stringify(MOCK_SEARCH_RESPONSE)));
+    }
+    return Promise.resolve(new Response(MOCK_HTML, {
+      headers: { "content-type": "text/html; charset=utf-8" }
+    }));
+  };
+  
+  try {
+    const hits = await getNewsUrls("library test", { searchUrl: "http://search.test/search", maxResults: 2 });
+    assertEquals(hits.map(hit => hit.url), ["https://example.com/article1", "https://example.com/article2"]);
+    assertEquals(hits[0].title, "Test Article 1");
+    
+    const pages = await getCleanedText(["https://example.com/library-page"], { timeout: 5000 });
+    assertEquals(pages.length, 1);
+    assertEquals(pages[0].url, "https://example.com/library-page");
+    assertEquals(pages[0].title, "Test Article");
+    assertEquals(pages[0].content.includes("📰 Source: https://example.com/library-page"), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Library - search hit metadata and snippet fallback", async () => {
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    if (url.toString().startsWith("http://search.test/")) {
+      return Promise.resolve(new Response(JSON.stringify({
+        results: [
+          {
+            url: "https://example.com/metadata-ok",
+            title: "Search Title",
+            content: "Snippet one",
+            engine: "bing",
+            score: 2.5,
+            publishedDate: "2024-05-01T00:00:00"
+          },
+          { url: "https://example.com/metadata-down", title: "Down Page", content: "Snippet for the page that fails" },
+          { url: "https://example.com/metadata-gone" }
+        ]
+      })));
+    }
+    if (url.toString().endsWith("-ok")) {
+      return Promise.resolve(new Response(MOCK_HTML, { headers: { "content-type": "text/html" } }));
+    }
+    return Promise.resolve(new Response("Unavailable", { status: 503 }));
+  };
+  
+  try {
+    const hits = await getNewsUrls("metadata", { searchUrl: "http://search.test/search" });
+    assertEquals(hits[0].engine, "bing");
+    assertEquals(hits[0].score, 2.5);
+    assertEquals(hits[0].publishedDate, "2024-05-01T00:00:00");
+    
+    const pages = await getCleanedText(hits, { networking: { maxRetries: 0 } });
+    assertEquals(pages.map(page => page.url), ["https://example.com/metadata-ok", "https://example.com/metadata-down"]);
+    assertEquals(pages[0].snippetOnly, false);
+    assertEquals(pages[0].hit.snippet, "Snippet one");
+    assertEquals(pages[0].content.includes("Published: 2024-05-01T00:00:00"), true);
+    assertEquals(pages[1].snippetOnly, true);
+    assertEquals(pages[1].title, "Down Page");
+    assertEquals(pages[1].text, "Snippet for the page that fails");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Pagination - requests further pages and records rejections", async () => {
+  const originalFetch = globalThis.fetch;
+  const requestedPages: string[] = [];
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    const target = new URL(url.toString());
+    if (target.hostname === "search.test") {
+      const pageno = target.searchParams.get("pageno") ?? "1";
+      requestedPages.push(pageno);
+      const results = pageno === "1"
+        ? [{ url: "https://example.com/p1-a" }, { url: "https://facebook.com/post" }, { url: "https://example.com/p1-b" }]
+        : pageno === "2"
+        ? [{ url: "https://example.com/p1-a" }, { url: "https://example.com/p2-a" }, { url: "https://example.com/p2-b" }]
+        : [];
+      return Promise.resolve(new Response(JSON.stringify({ results })));
+    }
+    return Promise.resolve(new Response("Gone", { status: target.pathname.startsWith("/p1") ? 503 : 404 }));
+  };
+  
+  try {
+    const result = await search("pagination", {
+      searchUrl: "http://search.test/search",
+      maxResults: 2,
+      search: { maxPages: 5, timeBudget: 10000 },
+      networking: { maxRetries: 0 }
+    });
+    
+    assertEquals(requestedPages, ["1", "2", "3"]);
+    assertEquals(result.sources, []);
+    assertEquals(result.urls, ["https://example.com/p1-a", "https://example.com/p1-b", "https://example.com/p2-a", "https://example.com/p2-b"]);
+    assertEquals(result.metrics.searchPages, 3);
+    assertEquals(result.metrics.candidatesTried, 4);
+    assertEquals(result.metrics.rejected!.map(item => item.reason), ["excluded", "http_error", "http_error", "http_error", "http_error"]);
+    assertEquals(result.metrics.rejected![4].detail, "HTTP 404");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Query Expansion - reciprocal-rank fusion", () => {
+  const fused = fuseResults([
+    [{ url: "https://a.example/" }, { url: "https://b.example/", title: "B" }, { url: "https://c.example/" }],
+    [{ url: "https://b.example/", snippet: "About B" }, { url: "https://d.example/" }]
+  ], ["original", "variant"]);
+  
+  assertEquals(fused.map(hit => hit.url), ["https://b.example/", "https://a.example/", "https://d.example/", "https://c.example/"]);
+  assertEquals(fused[0].queries, ["original", "variant"]);
+  assertEquals(fused[0].title, "B");
+  assertEquals(fused[0].snippet, "About B");
+  assertEquals(fused[0].fusionScore!.toFixed(5), (1 / 62 + 1 / 61).toFixed(5));
+  assertEquals(fused[1].queries, ["original"]);
+});
+
+Deno.test("Query Expansion - sub-queries searched in parallel and fused", async () => {
+  const originalFetch = globalThis.fetch;
+  const searched: string[] = [];
+  const resultsByQuery: Record<string, string[]> = {
+    "solar storage": ["https://one.example/", "https://two.example/"],
+    "home battery": ["https://two.example/", "https://three.example/"],
+    "solar storage news": []
+  };
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    const query = new URL(url.toString()).searchParams.get("q")!;
+    searched.push(query);
+    if (query === "solar storage news") {
+      return Promise.resolve(new Response("Unavailable", { status: 503 }));
+    }
+    return Promise.resolve(new Response(JSON.stringify({
+      results: resultsByQuery[query].map(url => ({ url }))
+    })));
+  };
+  
+  try {
+    const hits = await getNewsUrls("solar storage", {
+      searchUrl: "http://search.test/search",
+      subQueries: ["solar storage", "home battery", "solar storage news"],
+      networking: { maxRetries: 0 }
+    });
+    
+    assertEquals(searched.sort(), ["home battery", "solar storage", "solar storage news"]);
+    assertEquals(hits.map(hit => hit.url), ["https://two.example/", "https://one.example/", "https://three.example/"]);
+    assertEquals(hits[0].queries, ["solar storage", "home battery"]);
+    assertEquals(hits[2].queries, ["home battery"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Deduplication - URL canonicalization", () => {
+  assertEquals(canonicalizeUrl("https://News.example.com/story?id=7&utm_source=feed&utm_medium=rss&fbclid=abc#comments"), "https://news.example.com/story?id=7");
+  assertEquals(canonicalizeUrl("https://news.example.com/amp/world/story"), "https://news.example.com/world/story");
+  assertEquals(canonicalizeUrl("https://news.example.com/world/story/amp"), "https://news.example.com/world/story");
+  assertEquals(canonicalizeUrl("https://news.example.com/world/story/amp/"), "https://news.example.com/world/story");
+  assertEquals(canonicalizeUrl("https://news.example.com/amp"), "https://news.example.com/");
+  assertEquals(canonicalizeUrl("https://news.example.com/world/story.amp.html"), "https://news.example.com/world/story.html");
+  assertEquals(canonicalizeUrl("https://news.example.com/world/story?outputType=amp"), "https://news.example.com/world/story");
+  assertEquals(canonicalizeUrl("https://news-example-com.cdn.ampproject.org/c/s/news.example.com/amp/world/story"), "https://news.example.com/world/story");
+  assertEquals(canonicalizeUrl("https://example.com/camp/ample"), "https://example.com/camp/ample");
+  assertEquals(canonicalizeUrl("not a url"), "not a url");
+});
+
+Deno.test("Deduplication - simhash near-duplicate detection", () => {
+  const article = "The city council approved the new transit plan on Tuesday after months of debate. " +
+    "The plan adds three bus rapid transit lines, extends light rail service to the airport and " +
+    "funds protected bike lanes on major corridors. Officials expect construction to begin next spring " +
+    "and estimate the total cost at 1.2 billion dollars over ten years, paid for by a regional sales tax.";
+  const syndicated = `${article} Reporting by Jane Doe; editing by John Roe.`;
+  const unrelated = "Researchers have discovered a new species of deep sea octopus near hydrothermal vents. " +
+    "The animal survives in near-freezing water and feeds on bacteria mats, according to a study published this week " +
+    "in a marine biology journal that describes its unusual reproductive cycle and camouflage.";
+  
+  assertEquals(hammingDistance(simhash(article), simhash(article)), 0);
+  assertEquals(isNearDuplicate(article, syndicated, 8), true);
+  assertEquals(isNearDuplicate(article, unrelated, 8), false);
+});
+
+Deno.test("Deduplication - duplicate pages collapsed into one source", async () => {
+  const originalFetch = globalThis.fetch;
+  const page = (canonical: string) => MOCK_HTML.replace("<head>", `<head><link rel="canonical" href="${canonical}">`);
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    const target = url.toString();
+    const html = target.includes("mirror") ? MOCK_HTML : page("/dedupe/original");
+    return Promise.resolve(new Response(html, { headers: { "content-type": "text/html" } }));
+  };
+  
+  try {
+    const metrics = createMetrics();
+    const pages = await getCleanedText([
+      "https://dedupe.example/dedupe/original?utm_source=newsletter",
+      "https://dedupe.example/amp/dedupe/original",
+      "https://mirror.example/copied-article"
+    ], { metrics });
+    
+    assertEquals(pages.length, 1);
+    assertEquals(pages[0].url, "https://dedupe.example/dedupe/original");
+    assertEquals(pages[0].alternateUrls, [
+      "https://dedupe.example/dedupe/original?utm_source=newsletter",
+      "https://dedupe.example/amp/dedupe/original",
+      "https://mirror.example/copied-article"
+    ]);
+    assertEquals(metrics.rejected.map(item => item.reason), ["duplicate", "duplicate"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Domain Rules - matching, deny, allow-only and reordering", () => {
+  const rules = new DomainRules([
+    { action: "deny", host: "*.contentfarm.example" },
+    { action: "deny", pattern: "/tag/\\d+" },
+    { action: "boost", host: "docs.python.org", weight: 5 },
+    { action: "demote", host: "blog.example.com", pathPrefix: "/sponsored/" }
+  ]);
+  
+  assertEquals(rules.check("https://contentfarm.example/a").allowed, false);
+  assertEquals(rules.check("https://www.contentfarm.example/a").allowed, false);
+  assertEquals(rules.check("https://notcontentfarm.example/a").allowed, true);
+  assertEquals(rules.check("https://news.example/tag/42").allowed, false);
+  assertEquals(rules.check("https://news.example/tag/latest").allowed, true);
+  
+  const ordered = rules.reorder([
+    { url: "https://blog.example.com/sponsored/post" },
+    { url: "https://news.example/story" },
+    { url: "https://blog.example.com/post" },
+    { url: "https://docs.python.org/3/library/asyncio.html" }
+  ]);
+  assertEquals(ordered.map(item => item.url), [
+    "https://docs.python.org/3/library/asyncio.html",
+    "https://news.example/story",
+    "https://blog.example.com/post",
+    "https://blog.example.com/sponsored/post"
+  ]);
+  
+  const allowOnly = new DomainRules([{ action: "allow", host: "*.python.org" }, { action: "deny", host: "wiki.python.org" }]);
+  assertEquals(allowOnly.check("https://docs.python.org/3/").allowed, true);
+  assertEquals(allowOnly.check("https://wiki.python.org/moin").allowed, false);
+  assertEquals(allowOnly.check("https://stackoverflow.com/q/1").reason, "not matched by any allow rule");
+});
+
+Deno.test("Domain Rules - rule file and search ordering", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = () => Promise.resolve(new Response(JSON.stringify({
+    results: [
+      { url: "https://farm.example/how-to" },
+      { url: "https://forum.example/thread" },
+      { url: "https://docs.example/guide" }
+    ]
+  })));
+  
+  try {
+    await Deno.writeTextFile(path, JSON.stringify({ rules: [{ action: "bogus", host: "x.example" }] }));
+    let message = "";
+    try {
+      loadRules(path);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+    assertEquals(message.startsWith("Invalid rule #1"), true);
+    
+    await Deno.writeTextFile(path, JSON.stringify([
+      { action: "deny", host: "farm.example", comment: "content farm" },
+      { action: "boost", host: "docs.example" }
+    ]));
+    const metrics = createMetrics();
+    const hits = await getNewsUrls("rules", { searchUrl: "http://search.test/search", maxResults: 1, rules: loadRules(path), metrics });
+    
+    assertEquals(hits.map(hit => hit.url), ["https://docs.example/guide"]);
+    assertEquals(metrics.rejected[0].detail, "denied by rule: deny farm.example (content farm)");
+  } finally {
+    globalThis.fetch = originalFetch;
+    await Deno.remove(path);
+  }
+});
+
+/**
+ * Builds a minimal (ASCII) PDF document with one line of Helvetica text per page
+ */
+function makePdf(pages: string[], title: string): string {
+  const objects: string[] = [];
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects[4 + i * 2] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`;
+    objects[5 + i * 2] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+  
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets.push(pdf.length);
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n` + offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info << /Title (${title}) >> >>\nstartxref\n${xref}\n%%EOF`;
+  return pdf;
+}
+
+Deno.test("PDF Extraction - text, page limit and size cap", async () => {
+  const originalFetch = globalThis.fetch;
+  const document = makePdf([
+    "Annual report on regional water quality measurements for the year",
+    "Appendix with detailed tables that should stay out of the context"
+  ], "Water Quality Report");
+  
+  globalThis.fetch = (url: string | URL | Request) => Promise.resolve(new Response(document, {
+    headers: { "content-type": url.toString().endsWith(".pdf") ? "application/octet-stream" : "application/pdf" }
+  }));
+  
+  try {
+    const metrics = createMetrics();
+    const pages = await getCleanedText(["https://reports.example/water.pdf", "https://reports.example/download?id=2"], {
+      pdf: { maxPages: 1 },
+      dedupe: { removeNearDuplicates: false },
+      metrics
+    });
+    
+    assertEquals(pages.length, 2);
+    assertEquals(pages[0].title, "Water Quality Report");
+    assertEquals(pages[0].text, "Annual report on regional water quality measurements for the year");
+    assertEquals(pages[0].content.includes("📑 PDF: 1 of 2 pages"), true);
+    assertEquals(pages[1].url, "https://reports.example/download?id=2");
+    
+    const capped = await getCleanedText(["https://reports.example/large.pdf"], { pdf: { maxBytes: 100 }, metrics });
+    assertEquals(capped.length, 0);
+    assertEquals(metrics.rejected[0].reason, "too_large");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Polite Crawling - robots.txt rules", () => {
+  const robots = new RobotsTxt(`
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.cgi$
+
+User-agent: BadBot
+User-agent: Ollama-WebSearch
+Disallow: /search
+Crawl-delay: 2
+`, "Ollama-WebSearch/2.0 (+https://example.org)");
+  
+  // The group naming our product token replaces the "*" group
+  assertEquals(robots.isAllowed("/search?q=x"), false);
+  assertEquals(robots.isAllowed("/private/data"), true);
+  assertEquals(robots.crawlDelay, 2);
+  
+  const generic = new RobotsTxt(`User-agent: *\nDisallow: /private/\nAllow: /private/press/\nDisallow: /*.cgi$`, "OtherBot/1.0");
+  assertEquals(generic.isAllowed("/private/data"), false);
+  assertEquals(generic.isAllowed("/private/press/release"), true);
+  assertEquals(generic.isAllowed("/cgi-bin/run.cgi"), false);
+  assertEquals(generic.isAllowed("/cgi-bin/run.cgi?x=1"), true);
+  assertEquals(generic.isAllowed("/public"), true);
+});
+
+Deno.test("Polite Crawling - robots.txt skips, User-Agent and rate limit", async () => {
+  const originalFetch = globalThis.fetch;
+  const requests: Array<{ url: string; userAgent: string | null; at: number }> = [];
+  resetCrawlState();
+  
+  globalThis.fetch = (url: string | URL | Request, init?: RequestInit) => {
+    const target = url.toString();
+    requests.push({ url: target, userAgent: new Headers(init?.headers).get("user-agent"), at: Date.now() });
+    if (target.endsWith("/robots.txt")) {
+      return Promise.resolve(new Response(target.includes("down.example") ? "" : "User-agent: *\nDisallow: /members/", {
+        status: target.includes("down.example") ? 503 : 200
+      }));
+    }
+    return Promise.resolve(new Response(MOCK_HTML, { headers: { "content-type": "text/html" } }));
+  };
+  
+  try {
+    const metrics = createMetrics();
+    const pages = await getCleanedText([
+      "https://polite.example/news/1",
+      "https://polite.example/members/2",
+      "https://polite.example/news/3",
+      "https://down.example/news/4"
+    ], {
+      networking: {
+        userAgent: "TestAgent/1.0",
+        respectRobots: true,
+        rateLimit: { enabled: true, requestsPerSecond: 10, perHostRequestsPerSecond: 5 }
+      },
+      dedupe: { removeNearDuplicates: false },
+      metrics
+    });
+    
+    assertEquals(pages.map(page => page.url), ["https://polite.example/news/1", "https://polite.example/news/3"]);
+    assertEquals(metrics.rejected.map(item => `${item.url} ${item.reason}`), [
+      "https://polite.example/members/2 robots",
+      "https://down.example/news/4 robots"
+    ]);
+    
+    const polite = requests.filter(request => request.url.startsWith("https://polite.example/"));
+    assertEquals(polite.map(request => request.url), [
+      "https://polite.example/robots.txt",
+      "https://polite.example/news/1",
+      "https://polite.example/news/3"
+    ]);
+    assertEquals(requests.every(request => request.userAgent === "TestAgent/1.0"), true);
+    // Five requests per second per host: at least 200ms between requests to the same host
+    assertGreater(polite[2].at - polite[0].at, 390);
+  } finally {
+    globalThis.fetch = originalFetch;
+    resetCrawlState();
+  }
+});
+
+Deno.test("Retries - transient errors and backoff delays", () => {
+  assertEquals([408, 429, 500, 502, 503, 504].every(isRetryableStatus), true);
+  assertEquals([400, 403, 404, 501, 505].some(isRetryableStatus), false);
+  
+  assertEquals(isRetryable(new DOMException("timed out", "TimeoutError")), true);
+  assertEquals(isRetryable(new Error("connection reset by peer")), true);
+  assertEquals(isRetryable({ status_code: 503, message: "model is loading" }), true);
+  assertEquals(isRetryable(new Error("dns error: failed to lookup address")), false);
+  assertEquals(isRetryable(new HttpStatusError("HTTP 404", new Response(null, { status: 404 }))), false);
+  
+  assertEquals(parseRetryAfter("5"), 5000);
+  assertEquals(parseRetryAfter("soon"), undefined);
+  assertEquals(parseRetryAfter(new Date(Date.now() - 1000).toUTCString()), 0);
+  
+  // Equal jitter: between half and all of retryDelay * 2^(retry - 1)
+  const policy = { maxRetries: 3, retryDelay: 100 };
+  for (let i = 0; i < 20; i++) {
+    const delay = backoffDelay(new Error("connection reset"), 3, policy)!;
+    assertEquals(delay >= 200 && delay <= 400, true);
+  }
+  
+  const limited = new HttpStatusError("HTTP 429", new Response(null, { status: 429, headers: { "retry-after": "2" } }));
+  assertEquals(backoffDelay(limited, 1, policy), 2000);
+  const tooLong = new HttpStatusError("HTTP 429", new Response(null, { status: 429, headers: { "retry-after": "3600" } }));
+  assertEquals(backoffDelay(tooLong, 1, policy), undefined);
+});
+
+Deno.test("Retries - search and page requests retried on 429 and 503", async () => {
+  const originalFetch = globalThis.fetch;
+  const requests: string[] = [];
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    const target = url.toString();
+    requests.push(target);
+    const attempts = requests.filter(request => request === target).length;
+    if (target.startsWith("http://search.test/")) {
+      return Promise.resolve(attempts === 1
+        ? new Response("Too Many Requests", { status: 429, headers: { "retry-after": "0" } })
+        : new Response(JSON.stringify({ results: [{ url: "https://retry.example/flaky" }, { url: "https://retry.example/missing" }] })));
+    }
+    if (target.endsWith("/flaky") && attempts === 1) {
+      return Promise.resolve(new Response("Unavailable", { status: 503 }));
+    }
+    if (target.endsWith("/flaky")) {
+      return Promise.resolve(new Response(MOCK_HTML, { headers: { "content-type": "text/html" } }));
+    }
+    return Promise.resolve(new Response("Not Found", { status: 404 }));
+  };
+  
+  try {
+    const metrics = createMetrics();
+    const options = { searchUrl: "http://search.test/search", networking: { retryDelay: 10, maxRetries: 2 }, metrics };
+    const hits = await getNewsUrls("retries", options);
+    const pages = await getCleanedText(hits, options);
+    
+    assertEquals(pages.map(page => page.url), ["https://retry.example/flaky"]);
+    assertEquals(metrics.retries, { search: 1, fetch: 1, ai: 0 });
+    // 404 is permanent: requested once, no retry
+    assertEquals(requests.filter(request => request.endsWith("/missing")).length, 1);
+    assertEquals(metrics.rejected.map(item => `${item.reason} ${item.detail}`), ["http_error HTTP 404"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Fetch Pool - concurrency limit and early completion", async () => {
+  let running = 0;
+  let maxRunning = 0;
+  const cancelled: number[] = [];
+  const results: number[] = [];
+  
+  const started = await runPool(Array.from({ length: 10 }, (_, i) => i), (item, signal) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    return new Promise<number>(resolve => {
+      const timer = setTimeout(() => resolve(item), item === 1 ? 1000 : 20);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        cancelled.push(item);
+        resolve(-1);
+      });
+    }).finally(() => running--);
+  }, {
+    concurrency: 3,
+    onResult: result => {
+      if (result >= 0) results.push(result);
+      return results.length >= 4;
+    }
+  });
+  
+  assertEquals(maxRunning, 3);
+  assertEquals(results.length, 4);
+  // The slow item is cancelled instead of holding up completion, and no further items start
+  assertEquals(cancelled.includes(1), true);
+  assertEquals(started < 10, true);
+});
+
+Deno.test("Fetch Pool - deadline cancels slow pages", async () => {
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = (url: string | URL | Request, init?: RequestInit) => {
+    const target = url.toString();
+    if (target.endsWith("/slow")) {
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+      });
+    }
+    if (target.endsWith("/fast")) {
+      return Promise.resolve(new Response(MOCK_HTML, { headers: { "content-type": "text/html" } }));
+    }
+    return Promise.resolve(new Response("Not Found", { status: 404 }));
+  };
+  
+  try {
+    const metrics = createMetrics();
+    const started = Date.now();
+    const pages = await getCleanedText([
+      { url: "https://deadline.example/fast" },
+      { url: "https://deadline.example/slow", snippet: "Snippet of the slow page" }
+    ], {
+      fetch: { deadline: 300 },
+      networking: { respectRobots: false, rateLimit: { enabled: false, requestsPerSecond: 0, perHostRequestsPerSecond: 0 } },
+      metrics
+    });
+    
+    assertEquals(Date.now() - started < 5000, true);
+    assertEquals(pages.map(page => `${page.url} ${page.snippetOnly}`), [
+      "https://deadline.example/fast false",
+      "https://deadline.example/slow true"
+    ]);
+    assertEquals(metrics.rejected.map(item => `${item.reason} ${item.detail}`), ["cancelled Deadline of 300ms reached"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+// windows-1251 bytes for ASCII and Cyrillic text (А-я map to 0xC0-0xFF)
+const cp1251 = (text: string) => Uint8Array.from(text, char => {
+  const code = char.charCodeAt(0);
+  return code >= 0x410 && code <= 0x44f ? code - 0x350 : code;
+});
+
+Deno.test("Body Decoding - charset detection", () => {
+  const ascii = new TextEncoder().encode("<html><head></head><body>plain</body></html>");
+  assertEquals(detectCharset(ascii, "text/html; charset=Shift_JIS"), "shift_jis");
+  assertEquals(detectCharset(ascii, "text/html; charset=bogus"), "utf-8");
+  assertEquals(detectCharset(new TextEncoder().encode('<meta charset="windows-1251">'), "text/html"), "windows-1251");
+  assertEquals(detectCharset(new TextEncoder().encode('<meta http-equiv="Content-Type" content="text/html; charset=EUC-JP">'), ""), "euc-jp");
+  assertEquals(detectCharset(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), "text/html; charset=iso-8859-1"), "utf-8");
+  assertEquals(detectCharset(new Uint8Array([0x63, 0x61, 0x66, 0xe9, 0x20, 0x61, 0x75]), "text/html"), "windows-1252");
+  
+  assertEquals(decodeBody(new Uint8Array([0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea]), "text/html; charset=shift_jis").text, "日本語");
+  assertEquals(decodeBody(cp1251("Привет"), "text/html; charset=windows-1251").text, "Привет");
+  // A character cut in half at the byte cap is dropped rather than garbled
+  assertEquals(decodeBody(new TextEncoder().encode("día").subarray(0, 2), "text/html; charset=utf-8").text, "d");
+});
+
+Deno.test("Body Decoding - byte cap and gzip payloads", async () => {
+  const capped = await readBody(new Response("0123456789"), 4);
+  assertEquals(new TextDecoder().decode(capped.data), "0123");
+  assertEquals(capped.truncated, true);
+  
+  const whole = await readBody(new Response("0123456789"), 10);
+  assertEquals(whole.truncated, false);
+  
+  const gzipped = new Response(new Response("compressed page ".repeat(100)).body!.pipeThrough(new CompressionStream("gzip")));
+  const unpacked = await readBody(gzipped, 64);
+  assertEquals(new TextDecoder().decode(unpacked.data), "compressed page ".repeat(4));
+  assertEquals(unpacked.truncated, true);
+});
+
+Deno.test("Body Decoding - legacy charset pages and truncation in sources", async () => {
+  const originalFetch = globalThis.fetch;
+  const paragraph = "<p>Привет, это тестовая статья с достаточно длинным текстом для извлечения.</p>";
+  
+  globalThis.fetch = (url: string | URL | Request) => {
+    const target = url.toString();
+    if (target.endsWith("/robots.txt")) return Promise.resolve(new Response("", { status: 404 }));
+    const paragraphs = target.endsWith("/long") ? 200 : 2;
+    const html = `<html><head><meta charset="windows-1251"><title>Статья</title></head><body><article>${paragraph.repeat(paragraphs)}</article></body></html>`;
+    return Promise.resolve(new Response(cp1251(html), { headers: { "content-type": "text/html" } }));
+  };
+  
+  try {
+    const pages = await getCleanedText(["https://cyrillic.example/short", "https://cyrillic.example/long"], {
+      fetch: { maxBytes: 4096 },
+      dedupe: { removeNearDuplicates: false }
+    });
+    
+    assertEquals(pages.length, 2);
+    assertEquals(pages[0].title, "Статья");
+    assertEquals(pages[0].text.includes("Привет, это тестовая статья"), true);
+    assertEquals(pages[0].charset, "windows-1251");
+    assertEquals(pages[0].truncated, false);
+    assertEquals(pages[1].truncated, true);
+    assertEquals(pages[1].content.includes("Truncated"), true);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Page Metadata - JSON-LD, OpenGraph and meta tags", () => {
+  const article = `<html lang="en-GB"><head>
+    <title>Solar Storage Report | Energy Daily</title>
+    <meta property="og:site_name" content="Energy Daily">
+    <meta property="og:description" content="Home batteries are getting cheaper.">
+    <meta property="article:published_time" content="2024-04-01T08:00:00Z">
+    <meta name="author" content="Meta Author">
+    <script type="application/ld+json">{"@context": "https://schema.org", "@graph": [
+      {"@type": "WebSite", "name": "Energy Daily"},
+      {"@type": "NewsArticle", "headline": "Solar Storage Report", "datePublished": "2024-05-01T09:30:00Z",
+       "dateModified": "2024-05-02T10:00:00Z", "author": [{"@type": "Person", "name": "Ada Lovelace"}, {"name": "Alan Turing"}]}
+    ]}</script>
+    <script type="application/ld+json">{ not json</script>
+  </head><body><article>${MOCK_HTML}</article></body></html>`;
+  
+  const document = htmlToDocument(article);
+  assertEquals(document.byline, "Ada Lovelace, Alan Turing");
+  assertEquals(document.publishedTime, "2024-05-01T09:30:00Z");
+  assertEquals(document.modifiedTime, "2024-05-02T10:00:00Z");
+  assertEquals(document.siteName, "Energy Daily");
+  assertEquals(document.lang, "en-GB");
+  assertEquals(document.description, "Home batteries are getting cheaper.");
+  assertEquals(document.text.includes("multiple paragraphs"), true);
+  
+  // Without JSON-LD, OpenGraph and plain meta tags are used; undeclared fields are left out
+  const plain = htmlToDocument(`<html><head><meta property="og:locale" content="de_DE">
+    <meta name="author" content="Meta Author"><meta name="date" content="2023-12-24"></head>
+    <body><article>${MOCK_HTML}</article></body></html>`);
+  assertEquals(plain.byline, "Meta Author");
+  assertEquals(plain.publishedTime, "2023-12-24");
+  assertEquals(plain.lang, "de-DE");
+  assertEquals("modifiedTime" in plain, false);
+  assertEquals("siteName" in plain, false);
+});
+
+Deno.test("Page Metadata - passed to the prompt and every output format", async () => {
+  const originalFetch = globalThis.fetch;
+  const page = `<html lang="fr"><head><meta property="og:site_name" content="Le Journal">
+    <meta property="article:published_time" content="2024-06-01"><meta name="author" content="Marie Curie"></head>
+    <body><article>${MOCK_HTML}</article></body></html>`;
+  globalThis.fetch = (url: string | URL | Request) => Promise.resolve(url.toString().endsWith("/robots.txt")
+    ? new Response("", { status: 404 })
+    : new Response(page, { headers: { "content-type": "text/html" } }));
+  
+  try {
+    const [fetched] = await getCleanedText(["https://journal.example/article"]);
+    assertEquals(fetched.metadata, { byline: "Marie Curie", publishedTime: "2024-06-01", siteName: "Le Journal", lang: "fr" });
+    assertEquals(fetched.content.includes("✍️  Author: Marie Curie"), true);
+    assertEquals(fetched.content.includes("🗓️  Published: 2024-06-01"), true);
+    
+    const result: SearchResult = {
+      query: "metadata",
+      timestamp: "2024-06-02T00:00:00.000Z",
+      urls: [fetched.url],
+      sources: [{ url: fetched.url, metadata: fetched.metadata, content: fetched.text, fetchTime: 1, contentLength: fetched.contentLength }],
+      aiResponse: "",
+      metrics: { totalTime: 0, searchTime: 0, fetchTime: 0, aiTime: 0, urlsFound: 1, urlsProcessed: 1, cacheHits: 0, tokens: 0 },
+      model: "test-model",
+      config: {}
+    };
+    assertEquals(OutputFormatter.toMarkdown(result).includes("- **Author:** Marie Curie"), true);
+    assertEquals(OutputFormatter.toHTML(result).includes("<strong>Site:</strong> Le Journal"), true);
+    assertEquals(OutputFormatter.toPlainText(result).includes("Published: 2024-06-01"), true);
+    assertEquals(JSON.parse(OutputFormatter.toJSON(result)).sources[0].metadata.lang, "fr");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Markdown Extraction - headings, lists, tables and code", () => {
+  const html = `<html><body><article>
+    <h2>Installing <em>the</em> CLI</h2>
+    <p>Run <code>deno task build</code> and then <a href="/docs">read the docs</a>.</p>
+    <ol><li>Download<ul><li>Linux</li><li>macOS</li></ul></li><li>Unpack</li></ol>
+    <table><tr><th>Flag</th><th>Meaning</th></tr><tr><td>-x</td><td>Expand | fuse</td></tr></table>
+    <pre><code class="language-ts">const x = 1;
+if (x) {
+  console.log(x);
+}</code></pre>
+  </article></body></html>`;
+  
+  assertEquals(htmlToText(html, "markdown"), [
+    "## Installing _the_ CLI",
+    "",
+    "Run `deno task build` and then read the docs.",
+    "",
+    "1. Download",
+    "   - Linux",
+    "   - macOS",
+    "2. Unpack",
+    "",
+    "| Flag | Meaning |",
+    "| --- | --- |",
+    "| -x | Expand \\| fuse |",
+    "",
+    "```ts",
+    "const x = 1;",
+    "if (x) {",
+    "  console.log(x);",
+    "}",
+    "```"
+  ].join("\n"));
+  
+  // Plain text stays the default
+  assertEquals(htmlToText(html).includes("```"), false);
+});
+
+Deno.test("Markdown Extraction - fallback content without Readability", () => {
+  const page = `<html><body><nav>Home About Contact</nav>
+    <div class="sidebar"><p>Short teaser</p></div>
+    <div class="story"><p>${"The main story text goes on for a while. ".repeat(6)}</p><p>Second paragraph.</p></div>
+    <footer>Copyright</footer></body></html>`;
+  
+  const main = findMainContent(page);
+  assertEquals(main.includes("The main story text"), true);
+  assertEquals(main.includes("Short teaser"), false);
+  assertEquals(main.includes("Home About"), false);
+  
+  // A page without any text no longer throws
+  assertEquals(htmlToText("<html><body></body></html>"), "");
+});
+
+Deno.test("Site Extractors - Stack Overflow question with accepted answer", () => {
+  const page = `<html><head><title>Ignore me - Stack Overflow</title></head><body>
+    <div id="question-header"><h1><a href="/questions/1">How do I parse JSON in Deno?</a></h1></div>
+    <div id="question" class="question" data-score="12">
+      <div class="js-post-body"><p>I have a <code>string</code> holding JSON.</p></div>
+      <div class="post-taglist"><a class="post-tag">deno</a><a class="post-tag">json</a></div>
+    </div>
+    <div class="answer" data-score="30"><div class="js-post-body"><p>Highly voted answer.</p></div></div>
+    <div class="answer accepted-answer" data-score="25"><div class="js-post-body"><p>Use <code>JSON.parse</code>:</p>
+      <pre><code class="lang-js">JSON.parse(text)</code></pre></div></div>
+    <div class="sidebar">Hot network questions</div>
+  </body></html>`;
+  
+  const site = extractSite(page, "https://stackoverflow.com/questions/1/how-do-i-parse-json", "markdown");
+  assertEquals(site?.extractor, "stackexchange");
+  assertEquals(site?.document.title, "How do I parse JSON in Deno?");
+  assertEquals(site?.document.text, [
+    "## Question (score 12, tags: deno, json)",
+    "",
+    "I have a `string` holding JSON.",
+    "",
+    "## Accepted answer (score 25)",
+    "",
+    "Use `JSON.parse`:",
+    "",
+    "```js",
+    "JSON.parse(text)",
+    "```"
+  ].join("\n"));
+  
+  const arxiv = `<html><body><h1 class="title"><span class="descriptor">Title:</span>Attention Is All You Need</h1>
+    <div class="authors"><a>Ashish Vaswani</a>, <a>Noam Shazeer</a></div>
+    <blockquote class="abstract"><span class="descriptor">Abstract:</span> The dominant sequence transduction models...</blockquote>
+    <table><tr><td class="subjects">Computation and Language (cs.CL)</td></tr></table></body></html>`;
+  const paper = extractSite(arxiv, "https://arxiv.org/abs/1706.03762", "text")?.document;
+  assertEquals(paper?.title, "Attention Is All You Need");
+  assertEquals(paper?.byline, "Ashish Vaswani, Noam Shazeer");
+  assertEquals(paper?.text, "Authors:\nAshish Vaswani, Noam Shazeer\n\nAbstract:\nThe dominant sequence transduction models...\n\nSubjects:\nComputation and Language (cs.CL)");
+  
+  // Pages without a matching extractor, or where it finds nothing, are left to generic extraction
+  assertEquals(extractSite(page, "https://example.com/questions/1", "text"), undefined);
+  assertEquals(extractSite("<html><body><p>Login</p></body></html>", "https://stackoverflow.com/questions/2", "text"), undefined);
+});
+
+Deno.test("Site Extractors - configured rules and registered extractors", () => {
+  const rules = [{ name: "wiki", pattern: "^https://wiki\\.example\\.com/", title: "h1.page-title", content: ".body", byline: ".author", remove: ".ad" }];
+  const page = `<html><body><h1 class="page-title">Runbook</h1><span class="author">Dana</span>
+    <div class="body"><p>Restart the service.</p><div class="ad">Buy now</div></div><div class="body"><p>Check the logs.</p></div></body></html>`;
+  
+  const document = extractSite(page, "https://wiki.example.com/runbook", "text", rules)?.document;
+  assertEquals(document?.title, "Runbook");
+  assertEquals(document?.byline, "Dana");
+  assertEquals(document?.text, "Restart the service.\n\nCheck the logs.");
+  
+  // Registered extractors win over the built-ins
+  registerExtractor({ name: "custom-docs", matches: url => url.hostname === "docs.example.com", extract: () => null });
+  try {
+    assertEquals(findExtractor("https://docs.example.com/guide")?.name, "custom-docs");
+  } finally {
+    unregisterExtractor("custom-docs");
+  }
+  assertEquals(findExtractor("https://docs.example.com/guide")?.name, "docs");
+  assertEquals(findExtractor("https://en.wikipedia.org/wiki/Deno")?.name, "wikipedia");
+  assertEquals(findExtractor("https://github.com/denoland/deno/issues/1")?.name, "github");
+  
+  let message = "";
+  try {
+    compileExtractorRules([{ name: "broken", pattern: "(", content: "main" }]);
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  assertEquals(message.startsWith("Invalid extractor #1 (broken): invalid pattern"), true);
+});
+
+Deno.test("Summarization - token budget and map-reduce over long sources", async () => {
+  const settings = { strategy: "auto" as const, contextWindow: 1200, responseTokens: 200, summaryTokens: 100, concurrency: 2 };
+  assertEquals(estimateTokens("abcd".repeat(10)), 10);
+  assertEquals(estimateTokens("日本語"), 3);
+  assertEquals(chooseStrategy(500, settings), "single");
+  assertEquals(chooseStrategy(5000, settings), "map-reduce");
+  assertEquals(chooseStrategy(500, { ...settings, strategy: "map-reduce" }), "map-reduce");
+  
+  // Chunks break at paragraphs, then sentences, and stay within the budget
+  const paragraph = "This sentence is about heat pumps. ".repeat(20).trim();
+  const chunks = splitIntoChunks(`${paragraph}\n\n${paragraph}\n\n${"x".repeat(2000)}`, 200);
+  assertEquals(chunks.every(chunk => estimateTokens(chunk) <= 200), true);
+  assertEquals(chunks[0], paragraph);
+  assertEquals(chunks.join("").replace(/\s/g, "").length, `${paragraph}${paragraph}${"x".repeat(2000)}`.replace(/\s/g, "").length);
+  
+  const prompts: string[] = [];
+  const generate = (prompt: string) => {
+    prompts.push(prompt);
+    return Promise.resolve(prompt.startsWith("Summarize") ? "s".repeat(600) : "merged notes");
+  };
+  const long = `📰 Source: https://long.example/\n\n${`${paragraph}\n\n`.repeat(9)}`;
+  const short = `📰 Source: https://short.example/\n\nHeat pumps work in the cold.`;
+  const { summaries, parts, rounds } = await summarizeSources("heat pumps", [long, short], 300, settings, generate);
+  
+  // Each chunk keeps its source's attribution; the notes were merged until they fit the final prompt
+  assertGreater(parts, 2);
+  assertEquals(prompts.filter(prompt => prompt.startsWith("Summarize")).length, parts);
+  assertEquals(prompts.some(prompt => prompt.includes("📰 Source: https://long.example/\n(Part 2 of")), true);
+  assertGreater(rounds, 1);
+  assertEquals(summaries, ["merged notes"]);
+});
+
+Deno.test("Passage Retrieval - ranking by similarity and source blocks", () => {
+  assertEquals(cosineSimilarity([1, 0], [2, 0]), 1);
+  assertEquals(cosineSimilarity([1, 0], [0, 3]), 0);
+  assertEquals(cosineSimilarity([0, 0], [1, 1]), 0);
+  
+  const passages = splitPassages("Heat pumps move heat.\n\nDefrost cycles reverse the flow.\n\nPrices vary by region.", 8);
+  assertEquals(passages, ["Heat pumps move heat.", "Defrost cycles reverse the flow.", "Prices vary by region."]);
+  
+  const ranked = rankPassages([1, 0], [
+    { passages, vectors: [[0.9, 0.1], [0.2, 0.8], [1, 0]] },
+    { passages: ["Unrelated"], vectors: [[0, 1]] }
+  ], 2);
+  assertEquals(ranked.map(passage => [passage.source, passage.position]), [[0, 2], [0, 0]]);
+  
+  // Passages go back in page order under the source's attribution lines
+  const block = passageContent("📰 Source: https://heat.example/\n🏷️  Title: Heat\n\nfull text", ranked);
+  assertEquals(block.startsWith("📰 Source: https://heat.example/\n🏷️  Title: Heat\n📌 Passages: the 2 most relevant"), true);
+  assertEquals(block.includes("Heat pumps move heat.\n\n[…]\n\nPrices vary by region."), true);
+  assertEquals(block.includes("full text"), false);
+  assertEquals(passageContent("📰 Source: https://other.example/\n\ntext", []), "");
+});
+
+Deno.test("Citations - markers validated and rendered in every output format", () => {
+  const sources = [
+    { url: "https://one.example/", title: "One", content: "one", fetchTime: 1, contentLength: 3 },
+    { url: "https://two.example/", content: "two", fetchTime: 1, contentLength: 3 }
+  ];
+  const cited = resolveCitations("Heat pumps work [1, 2]. They save money [2-3]. Invented [7]. Code `a[1]` stays.", sources);
+  
+  assertEquals(cited.text, "Heat pumps work [1][2]. They save money [2]. Invented. Code `a[1]` stays.");
+  // Indexes after a name are not citations, even outside code
+  assertEquals(resolveCitations("Use a[0] and items[12], then cite (see [1]).[2]", sources).text, "Use a[0] and items[12], then cite (see [1]).[2]");
+  assertEquals(cited.citations, [
+    { number: 1, url: "https://one.example/", title: "One", count: 1 },
+    { number: 2, url: "https://two.example/", count: 2 }
+  ]);
+  assertEquals(cited.invalid, [3, 7]);
+  
+  const result: SearchResult = {
+    query: "heat pumps",
+    timestamp: "2024-06-02T00:00:00.000Z",
+    urls: sources.map(source => source.url),
+    sources,
+    aiResponse: cited.text,
+    citations: cited.citations,
+    metrics: { totalTime: 0, searchTime: 0, fetchTime: 0, aiTime: 0, urlsFound: 2, urlsProcessed: 2, cacheHits: 0, tokens: 0 },
+    model: "test-model",
+    config: {}
+  };
+  const markdown = OutputFormatter.toMarkdown(result);
+  assertEquals(markdown.includes("Heat pumps work [^1][^2]."), true);
+  assertEquals(markdown.includes("[^2]: [https://two.example/](https://two.example/)"), true);
+  assertEquals(markdown.includes("`a[1]`"), true);
+  const html = OutputFormatter.toHTML(result);
+  assertEquals(html.includes(`<a href="#source-1" class="citation" title="One">[1]</a>`), true);
+  assertEquals(html.includes(`id="source-2"`), true);
+  assertEquals(OutputFormatter.toPlainText(result).includes("[1] One - https://one.example/"), true);
+  assertEquals(JSON.parse(OutputFormatter.toJSON(result)).citations[1].count, 2);
+});
+
+Deno.test("Chat - sessions, follow-up messages and search decisions", async () => {
+  const result: SearchResult = {
+    query: "heat pumps",
+    timestamp: "2024-06-02T00:00:00.000Z",
+    urls: ["https://one.example/", "https://two.example/"],
+    sources: [
+      { url: "https://one.example/", title: "One", content: "Heat pumps move heat.", fetchTime: 1, contentLength: 21 },
+      { url: "https://two.example/", content: "Long text", passages: [{ text: "Defrost cycles.", score: 0.8 }], fetchTime: 1, contentLength: 9 }
+    ],
+    aiResponse: "They move heat [1].",
+    metrics: { totalTime: 0, searchTime: 0, fetchTime: 0, aiTime: 0, urlsFound: 2, urlsProcessed: 2, cacheHits: 0, tokens: 0 },
+    model: "test-model",
+    config: {}
+  };
+  const session = createSession(result);
+  assertEquals(session.turns.map(turn => [turn.question, turn.answer, turn.search]), [["heat pumps", "They move heat [1].", "heat pumps"]]);
+  assertEquals(session.sources[1].content.includes("Defrost cycles.") && !session.sources[1].content.includes("Long text"), true);
+  
+  // New sources are numbered after the existing ones, known URLs are skipped
+  const added = addSources(session, [
+    { url: "https://two.example/", content: "again", query: "heat pump prices" },
+    { url: "https://three.example/", title: "Three", content: "📰 Source: https://three.example/\n\nPrices vary.", query: "heat pump prices" }
+  ]);
+  assertEquals(added, 1);
+  session.turns.push({ question: "Do they work in winter?", answer: "Yes [2].", model: "test-model", timestamp: result.timestamp, newSources: 0 });
+  
+  const messages = chatMessages(session, "What about pricing?", { search: "auto", maxTurns: 1 }, { contextWindow: 16384, responseTokens: 2048 });
+  assertEquals(messages.map(message => message.role), ["system", "user", "assistant", "user"]);
+  assertEquals(messages[0].content.includes("[1] 📰 Source: https://one.example/") && messages[0].content.includes("[3] 📰 Source: https://three.example/"), true);
+  assertEquals(messages.slice(1).map(message => message.content), ["Do they work in winter?", "Yes [2].", "What about pricing?"]);
+  
+  // Sources are shortened to leave room for the conversation
+  session.sources[0].content = "📰 Source: https://one.example/\n\n" + "Heat pumps move heat. ".repeat(2000);
+  const fitted = chatMessages(session, "What about pricing?", { search: "auto", maxTurns: 6 }, { contextWindow: 2048, responseTokens: 512 });
+  assertEquals(estimateTokens(fitted.map(message => message.content).join("")) < 2048 - 512, true);
+  assertEquals(fitted[0].content.includes("Shortened to fit the context window"), true);
+  
+  assertEquals(parseDecision(`{"search": true, "query": "heat pump prices 2024", "reason": "pricing is not covered"}`, "fallback"),
+    { search: true, query: "heat pump prices 2024", reason: "pricing is not covered" });
+  assertEquals(parseDecision(`Sure! {"search": false}`, "fallback"), { search: false, query: "fallback" });
+  assertEquals(parseDecision("no idea", "fallback"), { search: false, query: "fallback" });
+  assertEquals(await decideFollowUp(session, "What about pricing?", { chat: { search: "never" } }),
+    { search: false, query: "heat pumps What about pricing?" });
+  
+  const path = Deno.makeTempFileSync({ suffix: ".json" });
+  try {
+    await saveSession(session, path);
+    assertEquals(await loadSession(path), session);
+    Deno.writeTextFileSync(path, JSON.stringify({ version: 1, query: "x" }));
+    let error: Error | undefined;
+    await loadSession(path).catch(caught => error = caught);
+    assertEquals(error?.message, `${path} is not a chat session`);
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("Library - search() with no results", async () => {
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = () => Promise.resolve(new Response(JSON.stringify({ results: [] })));
+  
+  try {
+    const result = await search("  nothing to find  ", { searchUrl: "http://search.test/search", ollamaModel: "test-model" });
+    
+    assertEquals(result.query, "nothing to find");
+    assertEquals(result.urls, []);
+    assertEquals(result.sources, []);
+    assertEquals(result.aiResponse, "");
+    assertEquals(result.model, "test-model");
+    assertEquals(result.metrics.urlsFound, 0);
+    
+    // Request headers carry API tokens: they are sent, but masked in the recorded configuration
+    let authorization: string | null = null;
+    globalThis.fetch = (_url: string | URL | Request, init?: RequestInit) => {
+      authorization = new Headers(init?.headers).get("authorization");
+      return Promise.resolve(new Response(JSON.stringify({ results: [] })));
+    };
+    const masked = await search("nothing", {
+      provider: "json",
+      providers: { json: { url: "http://search.test/api", headers: { Authorization: "Bearer secret" } } },
+      cache: { enabled: false, redisUrl: "redis://:secret@redis.test:6379/0" }
+    });
+    assertEquals(authorization, "Bearer secret");
+    assertEquals(masked.config.providers.json.headers, { Authorization: "***" });
+    assertEquals(masked.config.cache.redisUrl, "redis://:***@redis.test:6379/0");
+    assertEquals(OutputFormatter.toJSON(masked).includes("secret"), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Search Providers - SearXNG query parameters", () => {
+  const url = new URL(new SearxngProvider("http://localhost:9999/search", {
+    categories: ["news", "science"],
+    timeRange: "week",
+    safeSearch: true,
+    language: "de",
+    engines: ["google", "bing"]
+  }).buildUrl("energy policy"));
+  
+  assertEquals(url.searchParams.get("q"), "energy policy");
+  assertEquals(url.searchParams.get("format"), "json");
+  assertEquals(url.searchParams.get("categories"), "news,science");
+  assertEquals(url.searchParams.get("time_range"), "week");
+  assertEquals(url.searchParams.get("safesearch"), "1");
+  assertEquals(url.searchParams.get("language"), "de");
+  assertEquals(url.searchParams.get("engines"), "google,bing");
+  
+  // Unset values are omitted so the instance defaults apply
+  const bare = new URL(new SearxngProvider("http://localhost:9999/search", { timeRange: "" }).buildUrl("test"));
+  assertEquals(bare.searchParams.has("time_range"), false);
+  assertEquals(bare.searchParams.has("engines"), false);
+  assertEquals(bare.searchParams.get("categories"), "general");
+});
+
+Deno.test("URL Filtering - Configured exclusions", async () => {
+  const originalFetch = globalThis.fetch;
+  
+  globalThis.fetch = () => Promise.resolve(new Response(JSON.stringify({
+    results: [
+      { url: "https://www.reddit.com/r/test" },
+      { url: "https://nottwitter.com/article" },
+      { url: "https://example.com/report.PDF" },
+      { url: "https://example.com/slides.pptx" },
+      { url: "https://news.example.org/story" },
+      { url: "not-a-url" }
+    ]
+  })));
+  
+  try {
+    const urls = await getNewsUrls("filters", {
+      searchUrl: "http://search.test/search",
+      search: { excludeDomains: ["reddit.com", "twitter.com"], excludeFileTypes: [".pdf", "pptx"] }
+    });
+    
+    assertEquals(urls.map(hit => hit.url), ["https://nottwitter.com/article", "https://news.example.org/story"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Search Providers - JSON endpoint field mapping", async () => {
+  const originalFetch = globalThis.fetch;
+  let requestedUrl = "";
+  let userAgent: string | null = null;
+  
+  globalThis.fetch = (url: string | URL | Request, init?: RequestInit) => {
+    requestedUrl = url.toString();
+    userAgent = new Headers(init?.headers).get("user-agent");
+    return Promise.resolve(new Response(JSON.stringify({
+      data: {
+        items: [
+          { link: { href: "https://intranet.example/doc1" }, name: "Doc 1", summary: "First" },
+          { link: {}, name: "Missing URL" }
+        ]
+      }
+    })));
+  };
+  
+  try {
+    const provider = new JsonProvider({
+      url: "https://appliance.example/api?key=abc",
+      queryParam: "term",
+      resultsPath: "data.items",
+      fields: { url: "link.href", title: "name", snippet: "summary" }
+    });
+    const hits = await provider.search("vpn setup");
+    
+    assertEquals(new URL(requestedUrl).searchParams.get("term"), "vpn setup");
+    assertEquals(new URL(requestedUrl).searchParams.get("key"), "abc");
+    assertEquals(hits.length, 1);
+    assertEquals(hits[0].url, "https://intranet.example/doc1");
+    assertEquals(hits[0].title, "Doc 1");
+    assertEquals(hits[0].snippet, "First");
+    
+    // The configured User-Agent is sent with search requests as well
+    await createSearchProvider({
+      provider: "json",
+      searchUrl: "",
+      providers: { json: { url: "https://appliance.example/api", resultsPath: "data.items" } },
+      networking: { userAgent: "TestAgent/1.0" }
+    }).search("vpn setup");
+    assertEquals(userAgent, "TestAgent/1.0");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Search Providers - local directory and canned results", async () => {
+  const dir = await Deno.makeTempDir();
+  
+  try {
+    await Deno.writeTextFile(`${dir}/one.html`, "<html><head><title>One</title></head><body>kubernetes kubernetes upgrade</body></html>");
+    await Deno.writeTextFile(`${dir}/two.html`, "<html><head><title>Two</title></head><body>kubernetes notes</body></html>");
+    await Deno.writeTextFile(`${dir}/three.html`, "<html><body>unrelated</body></html>");
+    
+    const hits = await new LocalProvider({ path: dir }).search("kubernetes upgrade");
+    assertEquals(hits.map(hit => hit.title), ["One", "Two"]);
+    assertEquals(hits[0].url, `file://${dir}/one.html`);
+    
+    // URL syntax characters in file names are escaped
+    await Deno.writeTextFile(`${dir}/c#1 ?50%.html`, "<html><body>terraform</body></html>");
+    const [special] = await new LocalProvider({ path: dir }).search("terraform");
+    assertEquals(special.url, `file://${dir}/c%231%20%3F50%25.html`);
+    assertEquals(decodeURIComponent(new URL(special.url).pathname), `${dir}/c#1 ?50%.html`);
+    
+    await Deno.writeTextFile(`${dir}/canned.json`, JSON.stringify({ results: [{ url: "http://localhost:8080/a", title: "A" }] }));
+    const canned = await createSearchProvider({
+      provider: "local",
+      searchUrl: "",
+      providers: { local: { path: `${dir}/canned.json` } }
+    }).search("anything");
+    assertEquals(canned.map(hit => [hit.url, hit.title]), [["http://localhost:8080/a", "A"]]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
 /**
  * Performance Tests
  */
@@ -382,6 +1763,43 @@ Deno.test("Output Formatting - JSON Structure", () => {
   assertEquals(parsed.metrics.totalTime, 1000);
 });
 
+Deno.test("Output Formatting - format() dispatch and HTML escaping", () => {
+  const result: SearchResult = {
+    query: "<script>alert(1)</script>",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    urls: ["https://example.com"],
+    sources: [{
+      url: "https://example.com",
+      title: "Example & Co",
+      content: "test content",
+      fetchTime: 100,
+      contentLength: 12
+    }],
+    aiResponse: "line one\nline two",
+    metrics: {
+      totalTime: 1000,
+      searchTime: 200,
+      fetchTime: 300,
+      aiTime: 500,
+      urlsFound: 1,
+      urlsProcessed: 1,
+      cacheHits: 0,
+      tokens: 10
+    },
+    model: "test-model",
+    config: {}
+  };
+  
+  assertEquals(JSON.parse(OutputFormatter.format(result, "json")).sources[0].title, "Example & Co");
+  assertEquals(OutputFormatter.format(result, "md").includes("### 1. Example & Co"), true);
+  assertEquals(OutputFormatter.format(result, "unknown"), OutputFormatter.toPlainText(result));
+  
+  const html = OutputFormatter.format(result, "html");
+  assertEquals(html.includes("<script>alert(1)</script>"), false);
+  assertEquals(html.includes("Example &amp; Co"), true);
+  assertEquals(html.includes("line one<br>line two"), true);
+});
+
 /**
  * Configuration Tests
  */